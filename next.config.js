@@ -12,12 +12,21 @@
  * 
  * @type {import('next').NextConfig}
  */
+const basePath = '/auxo-website';
+
 const nextConfig = {
   // Enable static export for GitHub Pages
   output: 'export',
   trailingSlash: true,
-  basePath: '/auxo-website',
-  assetPrefix: '/auxo-website/',
+  basePath,
+  assetPrefix: `${basePath}/`,
+
+  // Expose the base path to code that builds absolute URLs (feeds, structured data)
+  // and the build start time that scheduled content is compared against (lib/publishing)
+  env: {
+    NEXT_PUBLIC_BASE_PATH: basePath,
+    NEXT_PUBLIC_CONTENT_BUILD_TIME: new Date().toISOString(),
+  },
   
   // Performance optimizations
   experimental: {
@@ -0,0 +1,24 @@
+/**
+ * Publishes the branded 404 page as the static export's 404.html
+ *
+ * Next.js only exports app/not-found.tsx as 404.html when the app has a single
+ * root layout. This site has two ((site) and [locale]), so the branded page is
+ * exported at /404/ instead and copied over the default 404.html, which GitHub
+ * Pages serves for unknown paths.
+ *
+ * Usage:
+ *   npm run build   (runs this as postbuild)
+ */
+
+import { copyFileSync, existsSync } from 'node:fs';
+
+const source = new URL('../out/404/index.html', import.meta.url);
+const target = new URL('../out/404.html', import.meta.url);
+
+if (!existsSync(source)) {
+  console.error('out/404/index.html is missing; run next build first');
+  process.exit(1);
+}
+
+copyFileSync(source, target);
+console.log('Copied out/404/index.html to out/404.html');
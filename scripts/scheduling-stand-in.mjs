@@ -0,0 +1,168 @@
+/**
+ * Local stand-in for the scheduling backend
+ *
+ * Serves the bundled availability snapshot over HTTP and keeps confirmed
+ * bookings in memory so the booking flow can be exercised offline. It also
+ * acts as the booking token verification service: confirmed bookings get an
+ * HMAC-signed manage token that the /booking/[token] page trades in to
+ * reschedule or cancel.
+ *
+ * Usage:
+ *   npm run scheduling:stand-in
+ *   NEXT_PUBLIC_AVAILABILITY_URL=http://localhost:4010 npm run dev
+ *
+ * Set BOOKING_TOKEN_SECRET to sign tokens with a fixed secret; otherwise a
+ * random one is generated per run and earlier links stop verifying.
+ */
+
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 4010);
+const TOKEN_SECRET = process.env.BOOKING_TOKEN_SECRET || randomBytes(32).toString('hex');
+const snapshot = JSON.parse(
+  readFileSync(new URL('../content/scheduling/availability.json', import.meta.url), 'utf8')
+);
+
+/** @type {Map<string, { id: string, slot: { start: string, end: string }, status: string }>} */
+const bookings = new Map();
+
+const overlaps = (interval, start, end) =>
+  Date.parse(interval.end) > start && Date.parse(interval.start) < end;
+
+const activeSlots = (excludeId) =>
+  [...bookings.values()]
+    .filter((booking) => booking.status !== 'cancelled' && booking.id !== excludeId)
+    .map((booking) => booking.slot);
+
+const sign = (payload) => createHmac('sha256', TOKEN_SECRET).update(payload).digest('base64url');
+
+/**
+ * Issues a token binding the booking ID to its current slot, so rescheduling
+ * invalidates links that were sent for the old time
+ */
+function issueToken(booking) {
+  const payload = Buffer.from(
+    JSON.stringify({ bookingId: booking.id, slot: booking.slot })
+  ).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Returns the booking a token refers to, or null when the signature does not
+ * match or the token was issued for a slot the booking no longer holds
+ */
+function verifyToken(token) {
+  const [payload, signature] = String(token ?? '').split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  const { bookingId, slot } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  const booking = bookings.get(bookingId);
+  if (!booking || booking.slot.start !== slot?.start || booking.slot.end !== slot?.end) return null;
+
+  return booking;
+}
+
+const withToken = (booking) => ({ ...booking, manageToken: issueToken(booking) });
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+async function readJson(req) {
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+  return JSON.parse(raw || '{}');
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  try {
+    if (req.method === 'GET' && url.pathname === '/availability') {
+      const start = Date.parse(url.searchParams.get('start') ?? '') || 0;
+      const end = Date.parse(url.searchParams.get('end') ?? '') || Number.MAX_SAFE_INTEGER;
+      const busy = [...snapshot.busy, ...activeSlots()];
+
+      return send(res, 200, {
+        generatedAt: new Date().toISOString(),
+        blackoutDates: snapshot.blackoutDates,
+        busy: busy.filter((interval) => overlaps(interval, start, end)),
+      });
+    }
+
+    if (req.method === 'POST' && url.pathname === '/bookings') {
+      const record = await readJson(req);
+      const start = Date.parse(record?.slot?.start);
+      const end = Date.parse(record?.slot?.end);
+      if (!record?.id || Number.isNaN(start) || Number.isNaN(end)) {
+        return send(res, 400, { error: 'Booking requires an id and a slot' });
+      }
+
+      const taken = [...snapshot.busy, ...activeSlots()].some((interval) => overlaps(interval, start, end));
+      if (taken) return send(res, 409, { error: 'Slot is no longer available' });
+
+      const booking = { ...record, status: 'confirmed' };
+      delete booking.manageToken;
+      bookings.set(booking.id, booking);
+      return send(res, 201, withToken(booking));
+    }
+
+    if (req.method === 'POST' && url.pathname === '/bookings/verify') {
+      const { token } = await readJson(req);
+      const booking = verifyToken(token);
+      if (!booking) return send(res, 401, { error: 'Invalid or expired booking token' });
+
+      return send(res, 200, booking.status === 'cancelled' ? booking : withToken(booking));
+    }
+
+    if (req.method === 'POST' && url.pathname === '/bookings/reschedule') {
+      const { token, slot } = await readJson(req);
+      const booking = verifyToken(token);
+      if (!booking) return send(res, 401, { error: 'Invalid or expired booking token' });
+      if (booking.status === 'cancelled') return send(res, 410, { error: 'Booking was cancelled' });
+
+      const start = Date.parse(slot?.start);
+      const end = Date.parse(slot?.end);
+      if (Number.isNaN(start) || Number.isNaN(end)) {
+        return send(res, 400, { error: 'Reschedule requires a slot' });
+      }
+
+      const taken = [...snapshot.busy, ...activeSlots(booking.id)].some((interval) => overlaps(interval, start, end));
+      if (taken) return send(res, 409, { error: 'Slot is no longer available' });
+
+      booking.slot = { start: slot.start, end: slot.end };
+      return send(res, 200, withToken(booking));
+    }
+
+    if (req.method === 'POST' && url.pathname === '/bookings/cancel') {
+      const { token } = await readJson(req);
+      const booking = verifyToken(token);
+      if (!booking) return send(res, 401, { error: 'Invalid or expired booking token' });
+
+      booking.status = 'cancelled';
+      return send(res, 200, booking);
+    }
+
+    send(res, 404, { error: 'Not found' });
+  } catch (error) {
+    send(res, 400, { error: error instanceof Error ? error.message : 'Bad request' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Scheduling stand-in listening on http://localhost:${PORT}`);
+});
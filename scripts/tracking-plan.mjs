@@ -0,0 +1,45 @@
+/**
+ * Writes the analytics tracking plan to docs/
+ *
+ * Renders the event catalog in src/lib/analyticsEvents.ts with lib/trackingPlan
+ * into docs/tracking-plan.json and docs/tracking-plan.md. The plan is internal
+ * documentation, so it is kept in the repository rather than exported with the
+ * site. Run it after changing the catalog and commit the result.
+ *
+ * Usage:
+ *   npm run tracking-plan
+ */
+
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import ts from 'typescript';
+
+// Modules the plan is built from; they only import each other and types
+const MODULES = ['analyticsEvents', 'trackingPlan'];
+
+const docsDir = new URL('../docs/', import.meta.url);
+const buildDir = mkdtempSync(join(tmpdir(), 'tracking-plan-'));
+
+try {
+  for (const name of MODULES) {
+    const source = readFileSync(new URL(`../src/lib/${name}.ts`, import.meta.url), 'utf8');
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+    });
+    writeFileSync(join(buildDir, `${name}.mjs`), outputText.replace(/from '\.\/(\w+)'/g, "from './$1.mjs'"));
+  }
+
+  const { buildTrackingPlan, renderTrackingPlanMarkdown } = await import(
+    pathToFileURL(join(buildDir, 'trackingPlan.mjs')).href
+  );
+  const plan = buildTrackingPlan();
+
+  mkdirSync(docsDir, { recursive: true });
+  writeFileSync(new URL('tracking-plan.json', docsDir), `${JSON.stringify(plan, null, 2)}\n`);
+  writeFileSync(new URL('tracking-plan.md', docsDir), renderTrackingPlanMarkdown(plan));
+  console.log(`Wrote ${plan.events.length} events to docs/tracking-plan.json and docs/tracking-plan.md`);
+} finally {
+  rmSync(buildDir, { recursive: true, force: true });
+}
@@ -0,0 +1,2 @@
+// Exported as out/404/index.html for scripts/export-404.mjs
+export { default, metadata } from '../not-found';
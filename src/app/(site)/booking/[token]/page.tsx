@@ -0,0 +1,37 @@
+import type { Metadata } from 'next';
+import BookingManager from '../../../../components/ui/BookingManager';
+import { siteContent } from '../../../../lib/constants';
+
+interface BookingPageProps {
+  params: { token: string };
+}
+
+export const metadata: Metadata = {
+  title: siteContent.scheduling.manage.title,
+  robots: { index: false, follow: false },
+};
+
+// Tokens are minted per booking, so the static export ships a single shell
+// page and the token itself is read from the URL fragment on the client
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return [{ token: 'manage' }];
+}
+
+/**
+ * Booking management page for rescheduling or cancelling a session
+ *
+ * @returns Client-side reschedule and cancel flow for the signed booking token
+ */
+export default function BookingPage({ params }: BookingPageProps) {
+  return (
+    <main className="pt-16 min-h-screen" role="main" aria-label="Manage your booking">
+      <section className="py-24 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-4xl mx-auto">
+          <BookingManager tokenParam={params.token} />
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,107 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { caseStudiesContent } from '../../../../lib/constants';
+import { generateMetadata as generatePageMetadata, optimizeForSearch } from '../../../../lib/seo';
+import { getAllCaseStudies, getCaseStudyById, getCaseStudyHref } from '../../../../lib/caseStudies';
+import { absoluteUrl } from '../../../../lib/urls';
+import MetricTiles from '../../../../components/ui/MetricTiles';
+
+interface CaseStudyPageProps {
+  params: { id: string };
+}
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getAllCaseStudies().map((caseStudy) => ({ id: String(caseStudy.id) }));
+}
+
+export function generateMetadata({ params }: CaseStudyPageProps) {
+  const caseStudy = getCaseStudyById(params.id);
+  if (!caseStudy) return {};
+  return generatePageMetadata(
+    `${caseStudy.client} ${caseStudiesContent.singularTitle}`,
+    caseStudy.summary.outcome,
+    getCaseStudyHref(caseStudy.id)
+  );
+}
+
+/**
+ * Single case study told as challenge → solution → outcome
+ *
+ * @returns Static case-study page with metric tiles and case study JSON-LD
+ */
+export default function CaseStudyPage({ params }: CaseStudyPageProps) {
+  const caseStudy = getCaseStudyById(params.id);
+  if (!caseStudy) notFound();
+
+  const schema = optimizeForSearch.generateCaseStudySchema({
+    title: `${caseStudy.client}: ${caseStudy.summary.outcome}`,
+    description: caseStudy.challenge,
+    url: absoluteUrl(getCaseStudyHref(caseStudy.id)),
+    client: caseStudy.client,
+    industry: caseStudy.industry,
+    metrics: caseStudy.metrics,
+  });
+
+  const narrative = [
+    { title: caseStudiesContent.challengeTitle, text: caseStudy.challenge },
+    { title: caseStudiesContent.solutionTitle, text: caseStudy.solution },
+    { title: caseStudiesContent.outcomeTitle, text: caseStudy.outcome },
+  ].filter((step) => step.text);
+
+  return (
+    <main className="pt-16 min-h-screen" role="main" aria-label={`${caseStudy.client} case study`}>
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(schema) }}
+      />
+      <article className="py-24 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-4xl mx-auto">
+          <Link href="/case-studies/" className="text-limestone hover:text-auxo-green transition-colors text-sm">
+            ← {caseStudiesContent.backText}
+          </Link>
+
+          <header className="mt-8 mb-12">
+            <span className="inline-block px-4 py-2 bg-auxo-green/10 rounded-full text-auxo-green text-sm font-semibold uppercase tracking-wider mb-6">
+              {caseStudy.industry}
+            </span>
+            <h1 className="text-3xl md:text-5xl font-extra-bold text-pure-white leading-tight mb-6">{caseStudy.client}</h1>
+            <p className="text-limestone text-lg leading-relaxed">{caseStudy.summary.outcome}</p>
+          </header>
+
+          <section aria-labelledby="case-study-results" className="mb-16">
+            <h2 id="case-study-results" className="text-auxo-green text-sm font-semibold uppercase tracking-wider mb-6">
+              {caseStudiesContent.metricsTitle}
+            </h2>
+            <MetricTiles metrics={caseStudy.metrics} />
+          </section>
+
+          <ol className="space-y-12">
+            {narrative.map((step, index) => (
+              <li key={step.title} className="grid md:grid-cols-[auto,1fr] gap-4 md:gap-8">
+                <span className="text-4xl font-extra-bold text-auxo-green/40" aria-hidden="true">
+                  {String(index + 1).padStart(2, '0')}
+                </span>
+                <div>
+                  <h2 className="text-2xl font-bold text-pure-white mb-3">{step.title}</h2>
+                  <p className="text-limestone text-lg leading-relaxed">{step.text}</p>
+                </div>
+              </li>
+            ))}
+          </ol>
+
+          <div className="mt-16 p-8 bg-gradient-to-br from-petrol-ink/90 to-petrol-ink/70 rounded-2xl border border-auxo-green/20 text-center">
+            <p className="text-pure-white text-xl font-semibold mb-4">{caseStudiesContent.ctaHeadline}</p>
+            <Link
+              href={caseStudiesContent.ctaLink}
+              className="inline-block bg-auxo-green text-rich-black px-6 py-3 rounded-lg font-semibold hover:bg-opacity-90 transition-all duration-200"
+            >
+              {caseStudiesContent.ctaText}
+            </Link>
+          </div>
+        </div>
+      </article>
+    </main>
+  );
+}
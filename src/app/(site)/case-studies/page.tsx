@@ -0,0 +1,40 @@
+import Link from 'next/link';
+import { caseStudiesContent } from '../../../lib/constants';
+import { generateMetadata as generatePageMetadata } from '../../../lib/seo';
+import { getAllCaseStudies, getCaseStudyIndustries } from '../../../lib/caseStudies';
+import CaseStudyFilter from '../../../components/ui/CaseStudyFilter';
+
+export const metadata = generatePageMetadata(caseStudiesContent.title, caseStudiesContent.subheadline, '/case-studies/');
+
+/**
+ * Case studies index with client-side industry filtering
+ *
+ * @returns Static case studies landing page
+ */
+export default function CaseStudiesPage() {
+  return (
+    <main className="pt-16 min-h-screen" role="main" aria-label="AUXO Data Co. case studies">
+      <section className="py-24 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-7xl mx-auto">
+          <header className="text-center max-w-3xl mx-auto mb-12">
+            <p className="text-auxo-green font-semibold tracking-wide uppercase text-sm mb-4">{caseStudiesContent.eyebrow}</p>
+            <h1 className="text-4xl md:text-5xl font-extra-bold text-pure-white mb-6">{caseStudiesContent.headline}</h1>
+            <p className="text-limestone text-lg">{caseStudiesContent.subheadline}</p>
+          </header>
+
+          <CaseStudyFilter caseStudies={getAllCaseStudies()} industries={getCaseStudyIndustries()} />
+
+          <div className="text-center mt-16">
+            <p className="text-pure-white text-xl font-semibold mb-4">{caseStudiesContent.ctaHeadline}</p>
+            <Link
+              href={caseStudiesContent.ctaLink}
+              className="inline-block bg-auxo-green text-rich-black px-6 py-3 rounded-lg font-semibold hover:bg-opacity-90 transition-all duration-200"
+            >
+              {caseStudiesContent.ctaText}
+            </Link>
+          </div>
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,120 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { insightsContent } from '../../../../lib/constants';
+import { generateMetadata as generatePageMetadata, optimizeForSearch } from '../../../../lib/seo';
+import {
+  compilePostContent,
+  formatPostDate,
+  getAllCategories,
+  getAllPosts,
+  getCategoryBySlug,
+  getPostBySlug,
+  slugifyTag,
+} from '../../../../lib/insights';
+import { getRelatedPosts } from '../../../../lib/relatedPosts';
+import { absoluteUrl } from '../../../../lib/urls';
+import AuthorCard from '../../../../components/ui/AuthorCard';
+import CategoryBadge from '../../../../components/ui/CategoryBadge';
+import { getMDXComponents } from '../../../../components/ui/MDXComponents';
+import RelatedPosts from '../../../../components/ui/RelatedPosts';
+
+interface PostPageProps {
+  params: { slug: string };
+}
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getAllPosts().map((post) => ({ slug: post.slug }));
+}
+
+export function generateMetadata({ params }: PostPageProps) {
+  const post = getPostBySlug(params.slug);
+  if (!post) return {};
+  return generatePageMetadata(post.title, post.excerpt, `/insights/${post.slug}/`, post.image);
+}
+
+/**
+ * Single insight article compiled from markdown or MDX at build time
+ *
+ * @returns Static article page with author card and Article JSON-LD
+ */
+export default async function PostPage({ params }: PostPageProps) {
+  const post = getPostBySlug(params.slug);
+  if (!post) notFound();
+
+  const content = await compilePostContent(post, getMDXComponents(post.slug));
+  const category = getCategoryBySlug(post.category);
+  const articleSchema = {
+    ...optimizeForSearch.generateArticleSchema(post.title, post.excerpt, post.publishedAt),
+    author: { "@type": "Person", name: post.author.name, jobTitle: post.author.role },
+    dateModified: post.updatedAt ?? post.publishedAt,
+    keywords: post.tags.join(', '),
+    mainEntityOfPage: absoluteUrl(`/insights/${post.slug}/`),
+  };
+
+  return (
+    <main className="pt-16 min-h-screen" role="main" aria-label={post.title}>
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(articleSchema) }}
+      />
+      <article className="py-24 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-3xl mx-auto">
+          <Link href="/insights/" className="text-limestone hover:text-auxo-green transition-colors text-sm">
+            ← {insightsContent.backToInsightsText}
+          </Link>
+
+          <header className="mt-8 mb-12">
+            {category && <CategoryBadge category={category} className="mb-6" />}
+            <h1 className="text-3xl md:text-5xl font-extra-bold text-pure-white leading-tight mb-6">{post.title}</h1>
+            <p className="text-limestone text-lg leading-relaxed mb-6">{post.excerpt}</p>
+            <p className="text-limestone/70 text-sm">
+              {insightsContent.publishedLabel} <time dateTime={post.publishedAt}>{formatPostDate(post.publishedAt)}</time>
+              {post.updatedAt && (
+                <>
+                  {' · '}
+                  {insightsContent.updatedLabel} <time dateTime={post.updatedAt}>{formatPostDate(post.updatedAt)}</time>
+                </>
+              )}
+              {' · '}
+              {post.readTime} {insightsContent.readTimeLabel}
+            </p>
+          </header>
+
+          <div className="insight-content">{content}</div>
+
+          {post.tags.length > 0 && (
+            <ul className="flex flex-wrap gap-2 mt-12" aria-label="Tags">
+              {post.tags.map((tag) => (
+                <li key={tag}>
+                  <Link
+                    href={`/insights/tag/${slugifyTag(tag)}/`}
+                    className="inline-block px-3 py-1 rounded-full bg-graphite/60 text-limestone text-xs hover:text-auxo-green transition-colors"
+                  >
+                    #{tag}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="mt-12">
+            <AuthorCard author={post.author} />
+          </div>
+
+          <div className="mt-16 p-8 bg-gradient-to-br from-petrol-ink/90 to-petrol-ink/70 rounded-2xl border border-auxo-green/20 text-center">
+            <p className="text-pure-white text-xl font-semibold mb-4">{insightsContent.ctaHeadline}</p>
+            <Link
+              href={insightsContent.ctaLink}
+              className="inline-block bg-auxo-green text-rich-black px-6 py-3 rounded-lg font-semibold hover:bg-opacity-90 transition-all duration-200"
+            >
+              {insightsContent.ctaText}
+            </Link>
+          </div>
+        </div>
+      </article>
+      <RelatedPosts posts={getRelatedPosts(post.slug)} categories={getAllCategories()} />
+    </main>
+  );
+}
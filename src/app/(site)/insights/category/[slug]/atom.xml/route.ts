@@ -0,0 +1,18 @@
+import { generateAtom } from '../../../../../../lib/feeds'
+import { getAllCategories } from '../../../../../../lib/insights'
+import { getFeedMDXComponents } from '../../../../../../components/ui/MDXComponents'
+
+export const dynamic = 'force-static'
+export const dynamicParams = false
+
+export function generateStaticParams() {
+  return getAllCategories().map((category) => ({ slug: category.slug }))
+}
+
+// Atom 1.0 feed filtered to one insights category
+export async function GET(_request: Request, { params }: { params: { slug: string } }) {
+  const body = await generateAtom({ components: getFeedMDXComponents(), category: params.slug })
+  return new Response(body, {
+    headers: { 'Content-Type': 'application/atom+xml; charset=utf-8' },
+  })
+}
@@ -0,0 +1,70 @@
+import { notFound } from 'next/navigation';
+import { insightsContent } from '../../../../../lib/constants';
+import { generateMetadata as generatePageMetadata } from '../../../../../lib/seo';
+import { getAllCategories, getCategoryBySlug, getPostsByCategory, paginatePosts } from '../../../../../lib/insights';
+import { getFeedAlternates, getFeedPaths } from '../../../../../lib/feeds';
+import { withBasePath } from '../../../../../lib/urls';
+import PostArchive from '../../../../../components/ui/PostArchive';
+
+interface CategoryPageProps {
+  params: { slug: string };
+}
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getAllCategories().map((category) => ({ slug: category.slug }));
+}
+
+export function generateMetadata({ params }: CategoryPageProps) {
+  const category = getCategoryBySlug(params.slug);
+  if (!category) return {};
+  const pageMetadata = generatePageMetadata(
+    `${category.name} ${insightsContent.title}`,
+    category.description,
+    `/insights/category/${category.slug}/`
+  );
+  return {
+    ...pageMetadata,
+    alternates: { ...pageMetadata.alternates, types: getFeedAlternates(category.slug) },
+  };
+}
+
+/**
+ * First page of the insights filed under a single category
+ *
+ * @returns Static category listing page
+ */
+export default function CategoryPage({ params }: CategoryPageProps) {
+  const category = getCategoryBySlug(params.slug);
+  if (!category) notFound();
+
+  const posts = getPostsByCategory(category.slug);
+  const archive = paginatePosts(posts, 1);
+  if (!archive) notFound();
+
+  return (
+    <PostArchive
+      label={`${category.name} insights`}
+      eyebrow={insightsContent.eyebrow}
+      accentColor={category.color}
+      title={category.name}
+      description={category.description}
+      posts={archive.posts}
+      totalPosts={posts.length}
+      categories={getAllCategories()}
+      page={archive.page}
+      totalPages={archive.totalPages}
+      basePath={`/insights/category/${category.slug}/`}
+      emptyText={insightsContent.emptyCategoryText}
+      actions={
+        <a
+          href={withBasePath(getFeedPaths(category.slug).rss)}
+          className="inline-block mt-6 text-sm text-auxo-green hover:underline"
+        >
+          {insightsContent.subscribeLabel}
+        </a>
+      }
+    />
+  );
+}
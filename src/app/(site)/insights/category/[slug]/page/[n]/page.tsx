@@ -0,0 +1,70 @@
+import { notFound } from 'next/navigation';
+import { insightsContent } from '../../../../../../../lib/constants';
+import { generateMetadata as generatePageMetadata } from '../../../../../../../lib/seo';
+import {
+  getAllCategories,
+  getCategoryBySlug,
+  getPageCount,
+  getPostsByCategory,
+  paginatePosts,
+} from '../../../../../../../lib/insights';
+import PostArchive from '../../../../../../../components/ui/PostArchive';
+import { getArchivePageHref } from '../../../../../../../components/ui/Pagination';
+
+interface CategoryArchivePageProps {
+  params: { slug: string; n: string };
+}
+
+export const dynamicParams = false;
+
+// Page 1 is also generated so the route always has params; its canonical URL is the category root
+export function generateStaticParams() {
+  return getAllCategories().flatMap((category) =>
+    Array.from({ length: getPageCount(getPostsByCategory(category.slug).length) }, (_, i) => ({
+      slug: category.slug,
+      n: String(i + 1),
+    }))
+  );
+}
+
+export function generateMetadata({ params }: CategoryArchivePageProps) {
+  const category = getCategoryBySlug(params.slug);
+  if (!category) return {};
+  const page = Number(params.n);
+  return generatePageMetadata(
+    `${category.name} ${insightsContent.title} · ${insightsContent.pagination.page} ${page}`,
+    category.description,
+    getArchivePageHref(`/insights/category/${category.slug}/`, page)
+  );
+}
+
+/**
+ * Later pages of a category archive
+ *
+ * @returns Static category listing page
+ */
+export default function CategoryArchivePage({ params }: CategoryArchivePageProps) {
+  const category = getCategoryBySlug(params.slug);
+  if (!category) notFound();
+
+  const posts = getPostsByCategory(category.slug);
+  const archive = paginatePosts(posts, Number(params.n));
+  if (!archive) notFound();
+
+  return (
+    <PostArchive
+      label={`${category.name} insights`}
+      eyebrow={insightsContent.eyebrow}
+      accentColor={category.color}
+      title={category.name}
+      description={category.description}
+      posts={archive.posts}
+      totalPosts={posts.length}
+      categories={getAllCategories()}
+      page={archive.page}
+      totalPages={archive.totalPages}
+      basePath={`/insights/category/${category.slug}/`}
+      emptyText={insightsContent.emptyCategoryText}
+    />
+  );
+}
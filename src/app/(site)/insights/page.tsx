@@ -0,0 +1,78 @@
+import Link from 'next/link';
+import { insightsContent } from '../../../lib/constants';
+import { generateMetadata as generatePageMetadata } from '../../../lib/seo';
+import { getAllCategories, getAllPosts, getAllTags, getPostsByCategory } from '../../../lib/insights';
+import { getFeedAlternates, getFeedPaths } from '../../../lib/feeds';
+import { withBasePath } from '../../../lib/urls';
+import CategoryBadge from '../../../components/ui/CategoryBadge';
+import PostCard from '../../../components/ui/PostCard';
+import TagCloud from '../../../components/ui/TagCloud';
+
+const pageMetadata = generatePageMetadata(insightsContent.title, insightsContent.subheadline, '/insights/');
+
+export const metadata = {
+  ...pageMetadata,
+  alternates: { ...pageMetadata.alternates, types: getFeedAlternates() },
+};
+
+/**
+ * Insights index listing every post, featured posts first
+ *
+ * @returns Static insights landing page
+ */
+export default function InsightsPage() {
+  const posts = getAllPosts();
+  const categories = getAllCategories();
+  const categoryBySlug = new Map(categories.map((category) => [category.slug, category]));
+  const [lead, ...rest] = posts;
+
+  return (
+    <main className="pt-16 min-h-screen" role="main" aria-label="AUXO Data Co. insights">
+      <section className="py-24 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-7xl mx-auto">
+          <header className="text-center max-w-3xl mx-auto mb-16">
+            <p className="text-auxo-green font-semibold tracking-wide uppercase text-sm mb-4">{insightsContent.eyebrow}</p>
+            <h1 className="text-4xl md:text-5xl font-extra-bold text-pure-white mb-6">{insightsContent.headline}</h1>
+            <p className="text-limestone text-lg">{insightsContent.subheadline}</p>
+            <a
+              href={withBasePath(getFeedPaths().rss)}
+              className="inline-block mt-6 text-sm text-auxo-green hover:underline"
+            >
+              {insightsContent.subscribeLabel}
+            </a>
+          </header>
+
+          <nav className="flex flex-wrap justify-center gap-3 mb-12" aria-label={insightsContent.categoriesTitle}>
+            {categories.map((category) => (
+              <CategoryBadge key={category.slug} category={category} count={getPostsByCategory(category.slug).length} />
+            ))}
+          </nav>
+
+          {lead && (
+            <div className="mb-8">
+              <PostCard post={lead} category={categoryBySlug.get(lead.category)} highlighted />
+            </div>
+          )}
+
+          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {rest.map((post) => (
+              <PostCard key={post.slug} post={post} category={categoryBySlug.get(post.category)} />
+            ))}
+          </div>
+
+          <TagCloud tags={getAllTags()} className="text-center mt-16" />
+
+          <div className="text-center mt-16">
+            <p className="text-pure-white text-xl font-semibold mb-4">{insightsContent.ctaHeadline}</p>
+            <Link
+              href={insightsContent.ctaLink}
+              className="inline-block bg-auxo-green text-rich-black px-6 py-3 rounded-lg font-semibold hover:bg-opacity-90 transition-all duration-200"
+            >
+              {insightsContent.ctaText}
+            </Link>
+          </div>
+        </div>
+      </section>
+    </main>
+  );
+}
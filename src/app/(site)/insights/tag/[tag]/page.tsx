@@ -0,0 +1,55 @@
+import { notFound } from 'next/navigation';
+import { insightsContent } from '../../../../../lib/constants';
+import { generateMetadata as generatePageMetadata } from '../../../../../lib/seo';
+import { getAllCategories, getAllTags, getPostsByTag, getTagBySlug, paginatePosts } from '../../../../../lib/insights';
+import PostArchive from '../../../../../components/ui/PostArchive';
+
+interface TagPageProps {
+  params: { tag: string };
+}
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return getAllTags().map((tag) => ({ tag: tag.slug }));
+}
+
+export function generateMetadata({ params }: TagPageProps) {
+  const tag = getTagBySlug(params.tag);
+  if (!tag) return {};
+  return generatePageMetadata(
+    `#${tag.name} ${insightsContent.title}`,
+    insightsContent.subheadline,
+    `/insights/tag/${tag.slug}/`
+  );
+}
+
+/**
+ * First page of the insights carrying a tag
+ *
+ * @returns Static tag listing page
+ */
+export default function TagPage({ params }: TagPageProps) {
+  const tag = getTagBySlug(params.tag);
+  if (!tag) notFound();
+
+  const posts = getPostsByTag(tag.slug);
+  const archive = paginatePosts(posts, 1);
+  if (!archive) notFound();
+
+  return (
+    <PostArchive
+      label={`Insights tagged ${tag.name}`}
+      eyebrow={insightsContent.tagEyebrow}
+      title={`#${tag.name}`}
+      description={insightsContent.subheadline}
+      posts={archive.posts}
+      totalPosts={posts.length}
+      categories={getAllCategories()}
+      page={archive.page}
+      totalPages={archive.totalPages}
+      basePath={`/insights/tag/${tag.slug}/`}
+      emptyText={insightsContent.emptyTagText}
+    />
+  );
+}
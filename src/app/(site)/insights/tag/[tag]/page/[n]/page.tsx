@@ -0,0 +1,67 @@
+import { notFound } from 'next/navigation';
+import { insightsContent } from '../../../../../../../lib/constants';
+import { generateMetadata as generatePageMetadata } from '../../../../../../../lib/seo';
+import {
+  getAllCategories,
+  getAllTags,
+  getPageCount,
+  getPostsByTag,
+  getTagBySlug,
+  paginatePosts,
+} from '../../../../../../../lib/insights';
+import PostArchive from '../../../../../../../components/ui/PostArchive';
+import { getArchivePageHref } from '../../../../../../../components/ui/Pagination';
+
+interface TagArchivePageProps {
+  params: { tag: string; n: string };
+}
+
+export const dynamicParams = false;
+
+// Page 1 is also generated so the route always has params; its canonical URL is the tag root
+export function generateStaticParams() {
+  return getAllTags().flatMap((tag) =>
+    Array.from({ length: getPageCount(tag.count) }, (_, i) => ({ tag: tag.slug, n: String(i + 1) }))
+  );
+}
+
+export function generateMetadata({ params }: TagArchivePageProps) {
+  const tag = getTagBySlug(params.tag);
+  if (!tag) return {};
+  const page = Number(params.n);
+  return generatePageMetadata(
+    `#${tag.name} ${insightsContent.title} · ${insightsContent.pagination.page} ${page}`,
+    insightsContent.subheadline,
+    getArchivePageHref(`/insights/tag/${tag.slug}/`, page)
+  );
+}
+
+/**
+ * Later pages of a tag archive
+ *
+ * @returns Static tag listing page
+ */
+export default function TagArchivePage({ params }: TagArchivePageProps) {
+  const tag = getTagBySlug(params.tag);
+  if (!tag) notFound();
+
+  const posts = getPostsByTag(tag.slug);
+  const archive = paginatePosts(posts, Number(params.n));
+  if (!archive) notFound();
+
+  return (
+    <PostArchive
+      label={`Insights tagged ${tag.name}`}
+      eyebrow={insightsContent.tagEyebrow}
+      title={`#${tag.name}`}
+      description={insightsContent.subheadline}
+      posts={archive.posts}
+      totalPosts={posts.length}
+      categories={getAllCategories()}
+      page={archive.page}
+      totalPages={archive.totalPages}
+      basePath={`/insights/tag/${tag.slug}/`}
+      emptyText={insightsContent.emptyTagText}
+    />
+  );
+}
@@ -0,0 +1,23 @@
+import type { Metadata } from "next";
+import "../globals.css";
+import RootDocument from "../../components/layout/RootDocument";
+import { DEFAULT_LOCALE } from "../../lib/i18n";
+import { rootMetadata } from "../../lib/seo";
+
+export const metadata: Metadata = rootMetadata;
+
+/**
+ * Root layout for the English-only pages: insights, case studies and booking
+ * management. The localized homepage has its own root layout under [locale].
+ *
+ * @param props - Layout component props
+ * @param props.children - Child components to render in the layout
+ * @returns Root HTML structure with optimized performance and SEO
+ */
+export default function SiteLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return <RootDocument locale={DEFAULT_LOCALE}>{children}</RootDocument>;
+}
@@ -0,0 +1,18 @@
+import type { Metadata } from 'next';
+import StatusPage from '../../components/ui/StatusPage';
+import { notFoundContent } from '../../lib/constants';
+
+export const metadata: Metadata = {
+  title: `${notFoundContent.title} | AUXO Data Co.`,
+  description: notFoundContent.subheadline,
+};
+
+/**
+ * Branded 404 for missing records in this route group
+ * Also exported at /404/ and copied to 404.html (see scripts/export-404.mjs)
+ *
+ * @returns Not-found page with suggested destinations
+ */
+export default function NotFound() {
+  return <StatusPage statusCode={404} content={notFoundContent} />;
+}
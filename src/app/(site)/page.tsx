@@ -0,0 +1,70 @@
+import type { Metadata } from 'next';
+import { localeChooserContent } from '../../lib/constants';
+import { LOCALES, LOCALE_SETTINGS, LOCALE_STORAGE_KEY, getLocalePath } from '../../lib/i18n';
+import { getHreflangAlternates } from '../../lib/seo';
+import { absoluteUrl, basePath, withBasePath } from '../../lib/urls';
+
+export const metadata: Metadata = {
+  alternates: {
+    canonical: absoluteUrl('/'),
+    languages: getHreflangAlternates(),
+  },
+};
+
+/**
+ * Sends visitors on to their saved language, or the first supported one in
+ * their browser preferences. Runs before hydration and keeps the query string,
+ * so the /?q= search URL from the WebSite schema still opens the palette.
+ * Mirrors matchLocale in lib/i18n.
+ */
+const redirectScript = `(function () {
+  var locales = ${JSON.stringify(LOCALES)};
+  var locale;
+  try { locale = localStorage.getItem(${JSON.stringify(LOCALE_STORAGE_KEY)}); } catch (e) {}
+  if (locales.indexOf(locale) === -1) {
+    var languages = navigator.languages || [navigator.language];
+    locale = locales[0];
+    for (var i = 0; i < languages.length; i++) {
+      var base = String(languages[i]).toLowerCase().split('-')[0];
+      if (locales.indexOf(base) !== -1) { locale = base; break; }
+    }
+  }
+  location.replace(${JSON.stringify(basePath)} + '/' + locale + '/' + location.search + location.hash);
+})();`;
+
+/**
+ * Site root (/)
+ * Redirects to the localized homepage; the language links are the fallback
+ * when scripts are disabled.
+ *
+ * @returns Language chooser
+ */
+export default function LocaleChooserPage() {
+  return (
+    <>
+      <script dangerouslySetInnerHTML={{ __html: redirectScript }} />
+      <main className="pt-16 min-h-screen flex items-center" role="main" aria-label="AUXO Data Co. language chooser">
+        <section className="w-full py-24 px-4 sm:px-6 lg:px-8">
+          <div className="max-w-xl mx-auto text-center">
+            <h1 className="text-4xl md:text-5xl font-extra-bold text-pure-white mb-6">{localeChooserContent.title}</h1>
+            <p className="text-limestone text-lg mb-10">{localeChooserContent.description}</p>
+            <nav className="flex flex-wrap justify-center gap-4" aria-label={localeChooserContent.title}>
+              {LOCALES.map((locale) => (
+                <a
+                  key={locale}
+                  href={withBasePath(getLocalePath(locale))}
+                  hrefLang={LOCALE_SETTINGS[locale].hreflang}
+                  lang={LOCALE_SETTINGS[locale].hreflang}
+                  className="inline-block bg-auxo-green text-rich-black px-6 py-3 rounded-lg font-semibold hover:bg-opacity-90 transition-all duration-200"
+                >
+                  {LOCALE_SETTINGS[locale].label}
+                </a>
+              ))}
+            </nav>
+            <p className="text-limestone/70 text-sm mt-10" aria-live="polite">{localeChooserContent.redirectingText}</p>
+          </div>
+        </section>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,111 @@
+import { privacyPolicyContent, siteContent } from '../../../lib/constants';
+import { formatDate } from '../../../lib/format';
+import { DEFAULT_LOCALE } from '../../../lib/i18n';
+import { generateMetadata as generatePageMetadata } from '../../../lib/seo';
+
+export const metadata = generatePageMetadata(
+  privacyPolicyContent.title,
+  privacyPolicyContent.description,
+  siteContent.footer.privacyLink
+);
+
+const monthYear = { month: 'long', year: 'numeric' } as const;
+
+/**
+ * Privacy policy with a table of contents, linkable sections and version history
+ * Prints without the site header, footer and cookie banner (see globals.css)
+ *
+ * @returns Static privacy policy page
+ */
+export default function PrivacyPage() {
+  const { title, description, lastUpdated, sections, versions } = privacyPolicyContent;
+
+  return (
+    <main className="pt-16 min-h-screen print:pt-0" role="main" aria-label={title}>
+      <article className="policy-document py-24 px-4 sm:px-6 lg:px-8 print:py-0">
+        <div className="max-w-3xl mx-auto">
+          <header className="mb-12">
+            <h1 className="text-4xl md:text-5xl font-extra-bold text-pure-white mb-6">{title}</h1>
+            <p className="text-limestone text-lg mb-4">{description}</p>
+            <p className="text-limestone/70 text-sm">
+              {privacyPolicyContent.lastUpdatedLabel}{' '}
+              <time dateTime={lastUpdated}>{formatDate(lastUpdated, DEFAULT_LOCALE, monthYear)}</time>
+            </p>
+          </header>
+
+          <nav
+            className="mb-16 p-6 bg-petrol-ink/40 rounded-2xl border border-auxo-green/10"
+            aria-labelledby="privacy-contents"
+          >
+            <h2 id="privacy-contents" className="text-pure-white font-semibold mb-4">
+              {privacyPolicyContent.contentsTitle}
+            </h2>
+            <ol className="list-decimal ps-5 space-y-2 marker:text-auxo-green">
+              {sections.map((section) => (
+                <li key={section.id}>
+                  <a href={`#${section.id}`} className="text-limestone hover:text-auxo-green transition-colors">
+                    {section.title}
+                  </a>
+                </li>
+              ))}
+              <li>
+                <a href="#version-history" className="text-limestone hover:text-auxo-green transition-colors">
+                  {privacyPolicyContent.versionHistoryTitle}
+                </a>
+              </li>
+            </ol>
+          </nav>
+
+          {sections.map((section) => (
+            <section key={section.id} id={section.id} className="group mb-12 scroll-mt-24">
+              <h2 className="text-2xl font-bold text-pure-white mb-4">
+                {section.title}
+                <a
+                  href={`#${section.id}`}
+                  className="ms-2 text-auxo-green opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity print:hidden"
+                  aria-label={`${privacyPolicyContent.sectionLinkLabel}: ${section.title}`}
+                >
+                  #
+                </a>
+              </h2>
+              <p className="text-limestone leading-relaxed">{section.content}</p>
+            </section>
+          ))}
+
+          <section id="version-history" className="group mt-16 scroll-mt-24">
+            <h2 className="text-2xl font-bold text-pure-white mb-4">
+              {privacyPolicyContent.versionHistoryTitle}
+              <a
+                href="#version-history"
+                className="ms-2 text-auxo-green opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity print:hidden"
+                aria-label={`${privacyPolicyContent.sectionLinkLabel}: ${privacyPolicyContent.versionHistoryTitle}`}
+              >
+                #
+              </a>
+            </h2>
+            <table className="w-full text-start text-sm text-limestone">
+              <thead>
+                <tr className="border-b border-dark-border text-pure-white">
+                  <th scope="col" className="py-2 pe-4 text-start font-semibold">{privacyPolicyContent.versionLabel}</th>
+                  <th scope="col" className="py-2 pe-4 text-start font-semibold">{privacyPolicyContent.dateLabel}</th>
+                  <th scope="col" className="py-2 text-start font-semibold">{privacyPolicyContent.changesLabel}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {versions.map((entry) => (
+                  <tr key={entry.version} className="border-b border-dark-border/60">
+                    <td className="py-2 pe-4 whitespace-nowrap">{entry.version}</td>
+                    <td className="py-2 pe-4 whitespace-nowrap">
+                      <time dateTime={entry.date}>{formatDate(entry.date, DEFAULT_LOCALE)}</time>
+                    </td>
+                    <td className="py-2">{entry.summary}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        </div>
+      </article>
+    </main>
+  );
+}
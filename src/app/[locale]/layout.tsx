@@ -0,0 +1,36 @@
+import type { Metadata } from "next";
+import "../globals.css";
+import RootDocument from "../../components/layout/RootDocument";
+import { LOCALES, LOCALE_SETTINGS, type Locale } from "../../lib/i18n";
+import { rootMetadata } from "../../lib/seo";
+
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }));
+}
+
+export function generateMetadata({ params }: { params: { locale: Locale } }): Metadata {
+  return {
+    ...rootMetadata,
+    openGraph: {
+      ...rootMetadata.openGraph,
+      locale: LOCALE_SETTINGS[params.locale].hreflang,
+    },
+  };
+}
+
+/**
+ * Root layout for the localized homepage (/en/, /ar/)
+ * Sets `lang` and `dir` for the locale and provides its site content to
+ * client components through LocaleProvider.
+ */
+export default function LocaleLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode;
+  params: { locale: Locale };
+}>) {
+  return <RootDocument locale={params.locale}>{children}</RootDocument>;
+}
@@ -0,0 +1,132 @@
+import { Suspense } from 'react';
+import type { Metadata } from 'next';
+import dynamic from 'next/dynamic';
+import HeroSection from '../../components/sections/HeroSection';
+import LazySection from '../../components/ui/LazySection';
+import { getSiteContent } from '../../lib/dictionaries';
+import { getLocalePath, type Locale } from '../../lib/i18n';
+import { generateWebsiteSchema, getHreflangAlternates } from '../../lib/seo';
+import { isSectionPublished } from '../../lib/publishing';
+import { absoluteUrl } from '../../lib/urls';
+
+// Lazy load sections that are below the fold for better initial page load performance
+const ChallengeSection = dynamic(() => import('../../components/sections/ChallengeSection'), {
+  loading: () => <div className="h-96 bg-graphite/20 animate-pulse" />,
+  ssr: true,
+});
+
+const FrameworkSection = dynamic(() => import('../../components/sections/FrameworkSection'), {
+  loading: () => <div className="h-96 bg-graphite/20 animate-pulse" />,
+  ssr: true,
+});
+
+const ImpactSection = dynamic(() => import('../../components/sections/ImpactSection'), {
+  loading: () => <div className="h-96 bg-graphite/20 animate-pulse" />,
+  ssr: true,
+});
+
+const EngagementSection = dynamic(() => import('../../components/sections/EngagementSection'), {
+  loading: () => <div className="h-96 bg-graphite/20 animate-pulse" />,
+  ssr: true,
+});
+
+export function generateMetadata({ params }: { params: { locale: Locale } }): Metadata {
+  return {
+    alternates: {
+      canonical: absoluteUrl(getLocalePath(params.locale)),
+      languages: getHreflangAlternates(),
+    },
+  };
+}
+
+/**
+ * Home page component with performance optimizations
+ * 
+ * Features:
+ * - Hero section loads immediately for above-the-fold content
+ * - Below-the-fold sections are lazy-loaded for better initial page performance
+ * - Intersection observer-based lazy loading for optimal user experience
+ * - Loading states with skeleton placeholders
+ * - Proper semantic HTML structure for accessibility
+ * - Optimized for Core Web Vitals (LCP, FID, CLS)
+ * - Draft and scheduled sections only render in preview builds
+ * 
+ * @returns Optimized home page with lazy-loaded sections
+ */
+export default function Home({ params }: { params: { locale: Locale } }) {
+  const { navigation } = getSiteContent(params.locale);
+
+  return (
+    <>
+      {/* WebSite schema advertising the ?q= search handled by the header search palette */}
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(generateWebsiteSchema()) }}
+      />
+      <main 
+        className="pt-16 overflow-x-hidden" 
+        role="main"
+        aria-label={navigation.mainContentLabel}
+      >
+        {/* Hero Section - Above the fold, loads immediately */}
+        {isSectionPublished('hero') && <HeroSection />}
+        
+        {/* Challenge Section - Lazy loaded with intersection observer */}
+        {isSectionPublished('challenge') && (
+          <LazySection
+            fallback={<div className="h-96 bg-graphite/10 animate-pulse rounded-lg mx-4" />}
+            threshold={0.2}
+            rootMargin="100px"
+            className="transition-opacity duration-700"
+          >
+            <Suspense fallback={<div className="h-96 bg-graphite/20 animate-pulse" />}>
+              <ChallengeSection />
+            </Suspense>
+          </LazySection>
+        )}
+        
+        {/* Framework Section - Lazy loaded */}
+        {isSectionPublished('framework') && (
+          <LazySection
+            fallback={<div className="h-96 bg-graphite/10 animate-pulse rounded-lg mx-4" />}
+            threshold={0.2}
+            rootMargin="100px"
+            className="transition-opacity duration-700"
+          >
+            <Suspense fallback={<div className="h-96 bg-graphite/20 animate-pulse" />}>
+              <FrameworkSection />
+            </Suspense>
+          </LazySection>
+        )}
+        
+        {/* Impact Section - Lazy loaded */}
+        {isSectionPublished('impact') && (
+          <LazySection
+            fallback={<div className="h-96 bg-graphite/10 animate-pulse rounded-lg mx-4" />}
+            threshold={0.2}
+            rootMargin="100px"
+            className="transition-opacity duration-700"
+          >
+            <Suspense fallback={<div className="h-96 bg-graphite/20 animate-pulse" />}>
+              <ImpactSection />
+            </Suspense>
+          </LazySection>
+        )}
+        
+        {/* Engagement Section - Lazy loaded */}
+        {isSectionPublished('engagement') && (
+          <LazySection
+            fallback={<div className="h-96 bg-graphite/10 animate-pulse rounded-lg mx-4" />}
+            threshold={0.2}
+            rootMargin="100px"
+            className="transition-opacity duration-700"
+          >
+            <Suspense fallback={<div className="h-96 bg-graphite/20 animate-pulse" />}>
+              <EngagementSection />
+            </Suspense>
+          </LazySection>
+        )}
+      </main>
+    </>
+  );
+}
\ No newline at end of file
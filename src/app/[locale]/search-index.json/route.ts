@@ -0,0 +1,14 @@
+import { LOCALES, type Locale } from '../../../lib/i18n'
+import { getSiteSearchIndex } from '../../../lib/searchIndex'
+
+export const dynamic = 'force-static'
+export const dynamicParams = false
+
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }))
+}
+
+// Inverted site search index of one locale, loaded by the search palette on first open
+export function GET(_request: Request, { params }: { params: { locale: Locale } }) {
+  return Response.json(getSiteSearchIndex(params.locale))
+}
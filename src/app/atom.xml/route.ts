@@ -0,0 +1,12 @@
+import { generateAtom } from '../../lib/feeds'
+import { getFeedMDXComponents } from '../../components/ui/MDXComponents'
+
+export const dynamic = 'force-static'
+
+// Atom 1.0 feed of every insight, written to out/atom.xml by the static export
+export async function GET() {
+  const body = await generateAtom({ components: getFeedMDXComponents() })
+  return new Response(body, {
+    headers: { 'Content-Type': 'application/atom+xml; charset=utf-8' },
+  })
+}
@@ -0,0 +1,12 @@
+import { generateJSONFeed } from '../../lib/feeds'
+import { getFeedMDXComponents } from '../../components/ui/MDXComponents'
+
+export const dynamic = 'force-static'
+
+// JSON Feed 1.1 feed of every insight, written to out/feed.json by the static export
+export async function GET() {
+  const body = await generateJSONFeed({ components: getFeedMDXComponents() })
+  return new Response(body, {
+    headers: { 'Content-Type': 'application/feed+json; charset=utf-8' },
+  })
+}
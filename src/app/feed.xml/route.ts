@@ -0,0 +1,12 @@
+import { generateRSS } from '../../lib/feeds'
+import { getFeedMDXComponents } from '../../components/ui/MDXComponents'
+
+export const dynamic = 'force-static'
+
+// RSS 2.0 feed of every insight, written to out/feed.xml by the static export
+export async function GET() {
+  const body = await generateRSS({ components: getFeedMDXComponents() })
+  return new Response(body, {
+    headers: { 'Content-Type': 'application/rss+xml; charset=utf-8' },
+  })
+}
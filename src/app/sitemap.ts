@@ -1,21 +1,75 @@
 import { MetadataRoute } from 'next'
-import { seoMetadata } from '../lib/constants'
+import { privacyPolicyContent, siteContent } from '../lib/constants'
+import { LOCALES, getLocalePath } from '../lib/i18n'
+import { getHreflangAlternates } from '../lib/seo'
+import { getAllCategories, getAllPosts, getAllTags, getPageCount, getPostsByCategory } from '../lib/insights'
+import { getAllCaseStudies, getCaseStudyHref } from '../lib/caseStudies'
+import { absoluteUrl } from '../lib/urls'
 
 export default function sitemap(): MetadataRoute.Sitemap {
-  const baseUrl = seoMetadata.url
+  const posts = getAllPosts()
+  // Archive page 1 lives at the archive root; later pages under page/[n]/
+  const archivePages = (root: string, total: number) =>
+    Array.from({ length: getPageCount(total) }, (_, i) => (i === 0 ? root : `${root}page/${i + 1}/`))
+  const latestPost = posts.reduce(
+    (latest, post) => Math.max(latest, Date.parse(post.updatedAt ?? post.publishedAt)),
+    0
+  )
 
   return [
-    {
-      url: baseUrl,
+    // The root only redirects to a locale, so the localized homepages are listed instead
+    ...LOCALES.map((locale) => ({
+      url: absoluteUrl(getLocalePath(locale)),
       lastModified: new Date(),
-      changeFrequency: 'monthly',
+      changeFrequency: 'monthly' as const,
       priority: 1,
-    },
+      alternates: { languages: getHreflangAlternates() },
+    })),
     {
-      url: `${baseUrl}/privacy`,
-      lastModified: new Date(),
+      url: absoluteUrl(siteContent.footer.privacyLink),
+      lastModified: new Date(privacyPolicyContent.lastUpdated),
       changeFrequency: 'yearly',
       priority: 0.3,
     },
+    {
+      url: absoluteUrl('/case-studies/'),
+      lastModified: new Date(),
+      changeFrequency: 'monthly',
+      priority: 0.8,
+    },
+    ...getAllCaseStudies().map((caseStudy) => ({
+      url: absoluteUrl(getCaseStudyHref(caseStudy.id)),
+      lastModified: new Date(),
+      changeFrequency: 'monthly' as const,
+      priority: 0.7,
+    })),
+    {
+      url: absoluteUrl('/insights/'),
+      lastModified: latestPost ? new Date(latestPost) : new Date(),
+      changeFrequency: 'weekly',
+      priority: 0.8,
+    },
+    ...getAllCategories().flatMap((category) =>
+      archivePages(`/insights/category/${category.slug}/`, getPostsByCategory(category.slug).length).map((path) => ({
+        url: absoluteUrl(path),
+        lastModified: new Date(),
+        changeFrequency: 'weekly' as const,
+        priority: 0.5,
+      }))
+    ),
+    ...getAllTags().flatMap((tag) =>
+      archivePages(`/insights/tag/${tag.slug}/`, tag.count).map((path) => ({
+        url: absoluteUrl(path),
+        lastModified: new Date(),
+        changeFrequency: 'weekly' as const,
+        priority: 0.4,
+      }))
+    ),
+    ...posts.map((post) => ({
+      url: absoluteUrl(`/insights/${post.slug}/`),
+      lastModified: new Date(post.updatedAt ?? post.publishedAt),
+      changeFrequency: 'monthly' as const,
+      priority: 0.7,
+    })),
   ]
 }
\ No newline at end of file
@@ -3,14 +3,28 @@
 import { motion } from 'framer-motion';
 import { useState, useEffect, Suspense, lazy } from 'react';
 import AuxoLogo from '../ui/AuxoLogo';
+import TagCloud from '../ui/TagCloud';
 import { staggerContainer, sectionVariants } from '@/lib/animations';
-import { siteContent } from '@/lib/constants';
+import { useDirection, useLocale, useSiteContent } from './LocaleProvider';
+import { openConsentPreferences } from '@/lib/consent';
+import { isSectionLinkPublished } from '@/lib/publishing';
+import { withBasePath } from '@/lib/urls';
+import type { BlogTag } from '@/types/blog';
 
 // Lazy load new emotional progression animation
 const FooterFoundationAnimation = lazy(() => import('../ui/FooterFoundationAnimation'));
 
-export default function Footer() {
+interface FooterProps {
+  /** Insight tags for the footer tag cloud; omitted when empty */
+  tags?: BlogTag[];
+}
+
+export default function Footer({ tags = [] }: FooterProps) {
+  const { footer } = useSiteContent();
+  const { sign } = useDirection();
+  const locale = useLocale();
   const [currentYear, setCurrentYear] = useState(new Date().getFullYear());
+  const navigationLinks = footer.navigationLinks.filter((link) => isSectionLinkPublished(link.href));
 
   useEffect(() => {
     setCurrentYear(new Date().getFullYear());
@@ -18,9 +32,9 @@ export default function Footer() {
 
   return (
     <footer 
-      className="relative bg-gradient-to-b from-petrol-ink to-rich-black text-pure-white py-20 overflow-hidden"
+      className="relative bg-gradient-to-b from-petrol-ink to-rich-black text-pure-white py-20 overflow-hidden print:hidden"
       role="contentinfo"
-      aria-label="Site footer with contact information and navigation"
+      aria-label={footer.sectionLabel}
     >
       {/* New Emotional Progression Animation - Digital Bedrock */}
       <Suspense 
@@ -45,11 +59,11 @@ export default function Footer() {
         >
           <motion.div 
             variants={sectionVariants}
-            className="flex items-center justify-center space-x-3 mb-6"
+            className="flex items-center justify-center gap-3 mb-6"
           >
             <AuxoLogo size="lg" />
             <span className="text-pure-white font-bold text-2xl tracking-tight">
-              {siteContent.footer.companyName}
+              {footer.companyName}
             </span>
           </motion.div>
           
@@ -57,14 +71,14 @@ export default function Footer() {
             variants={sectionVariants}
             className="text-limestone text-lg leading-relaxed max-w-2xl mx-auto mb-8"
           >
-            {siteContent.footer.tagline}
+            {footer.tagline}
           </motion.p>
           
           <motion.p 
             variants={sectionVariants}
             className="text-limestone/80 text-base max-w-2xl mx-auto mb-8"
           >
-            {siteContent.footer.description}
+            {footer.description}
           </motion.p>
           
           {/* Call to Action */}
@@ -78,13 +92,13 @@ export default function Footer() {
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
             >
-              {siteContent.footer.ctaText}
+              {footer.ctaText}
               <motion.svg
-                className="ml-3 w-5 h-5"
+                className="ms-3 w-5 h-5 rtl:rotate-180"
                 fill="none"
                 stroke="currentColor"
                 viewBox="0 0 24 24"
-                whileHover={{ x: 3 }}
+                whileHover={{ x: 3 * sign }}
                 transition={{ duration: 0.2 }}
               >
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
@@ -101,7 +115,7 @@ export default function Footer() {
           viewport={{ once: true, amount: 0.3 }}
           className="flex flex-wrap justify-center gap-8 mb-12"
         >
-          {siteContent.footer.navigationLinks.map((link) => (
+          {navigationLinks.map((link) => (
             <motion.a
               key={link.href}
               href={link.href}
@@ -114,6 +128,25 @@ export default function Footer() {
           ))}
         </motion.div>
 
+        {/* Insight Topics */}
+        {tags.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            whileInView={{ opacity: 1 }}
+            transition={{ duration: 0.6 }}
+            viewport={{ once: true }}
+            className="max-w-3xl mx-auto text-center mb-12"
+          >
+            <TagCloud
+              tags={tags}
+              limit={footer.tagCloudLimit}
+              title={footer.tagCloudTitle}
+              countLabel={footer.tagCountLabel}
+              locale={locale}
+            />
+          </motion.div>
+        )}
+
         {/* Contact Information */}
         <motion.div
           variants={staggerContainer}
@@ -124,19 +157,27 @@ export default function Footer() {
         >
           <motion.div variants={sectionVariants} className="space-y-4">
             <motion.a
-              href={`mailto:${siteContent.footer.contactEmail}`}
+              href={`mailto:${footer.contactEmail}`}
               className="block text-limestone hover:text-auxo-green transition-colors duration-200 text-lg"
               whileHover={{ scale: 1.05 }}
             >
-              {siteContent.footer.contactEmail}
+              {footer.contactEmail}
             </motion.a>
             <motion.a
-              href={siteContent.footer.privacyLink}
+              href={withBasePath(footer.privacyLink)}
               className="block text-limestone hover:text-auxo-green transition-colors duration-200"
               whileHover={{ scale: 1.05 }}
             >
-              Privacy Policy
+              {footer.privacyLabel}
             </motion.a>
+            <motion.button
+              type="button"
+              onClick={openConsentPreferences}
+              className="block mx-auto text-limestone hover:text-auxo-green transition-colors duration-200"
+              whileHover={{ scale: 1.05 }}
+            >
+              {footer.cookiePreferencesLabel}
+            </motion.button>
           </motion.div>
         </motion.div>
 
@@ -148,12 +189,12 @@ export default function Footer() {
           transition={{ duration: 0.6, delay: 0.8 }}
           viewport={{ once: true }}
         >
-          <div className="flex flex-col md:flex-row justify-center items-center space-y-2 md:space-y-0 md:space-x-8">
+          <div className="flex flex-col md:flex-row justify-center items-center gap-2 md:gap-8">
             <p className="text-limestone text-sm">
-              © {currentYear} {siteContent.footer.companyName}. All rights reserved.
+              © {currentYear} {footer.companyName}. {footer.rightsText}
             </p>
             <p className="text-limestone text-sm font-medium">
-              {siteContent.footer.taglineBottom}
+              {footer.taglineBottom}
             </p>
           </div>
         </motion.div>
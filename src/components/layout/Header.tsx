@@ -1,13 +1,59 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Menu } from 'lucide-react';
+import { X, Menu, Search, Languages } from 'lucide-react';
 import AuxoLogo from '../ui/AuxoLogo';
-import { siteContent } from '@/lib/constants';
+import SearchPalette from '../ui/SearchPalette';
+import { useLocale, useSiteContent } from './LocaleProvider';
+import { LOCALES, LOCALE_SETTINGS, LOCALE_STORAGE_KEY, getLocalePath } from '@/lib/i18n';
+import { SEARCH_QUERY_PARAM } from '@/lib/search';
+import { isSectionLinkPublished } from '@/lib/publishing';
+import { withBasePath } from '@/lib/urls';
 
 export default function Header() {
+  const locale = useLocale();
+  const { navigation, search } = useSiteContent();
+  const alternateLocale = LOCALES.find((item) => item !== locale) ?? locale;
+  const alternateLabel = LOCALE_SETTINGS[alternateLocale].label;
+
+  // Links to draft or scheduled sections are dropped outside preview builds
+  const menuItems = navigation.menuItems.filter((item) => isSectionLinkPublished(item.href));
+
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [initialQuery, setInitialQuery] = useState('');
+  const [shortcutModifier, setShortcutModifier] = useState('Ctrl');
+
+  useEffect(() => {
+    setShortcutModifier(/Mac|iPhone|iPad/.test(navigator.userAgent) ? '⌘' : 'Ctrl');
+
+    // Honor the SearchAction URL (/?q=term) advertised in the WebSite schema
+    const query = new URLSearchParams(window.location.search).get(SEARCH_QUERY_PARAM);
+    if (query) {
+      setInitialQuery(query);
+      setIsSearchOpen(true);
+    }
+
+    const handleShortcut = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setIsSearchOpen((open) => !open);
+      }
+    };
+    window.addEventListener('keydown', handleShortcut);
+    return () => window.removeEventListener('keydown', handleShortcut);
+  }, []);
+
+  const openSearch = () => {
+    setIsMobileMenuOpen(false);
+    setIsSearchOpen(true);
+  };
+
+  const closeSearch = () => {
+    setIsSearchOpen(false);
+    setInitialQuery('');
+  };
 
   const scrollToTop = () => {
     if (typeof window !== 'undefined') {
@@ -17,10 +63,34 @@ export default function Header() {
 
   const closeMenu = () => setIsMobileMenuOpen(false);
 
+  // Remembered so the language chooser at / sends the visitor straight here next time
+  const rememberLocale = () => {
+    try {
+      localStorage.setItem(LOCALE_STORAGE_KEY, alternateLocale);
+    } catch {
+      // Storage can be unavailable in private browsing; the link still works
+    }
+  };
+
+  // Full page load, because the document language and direction change with the locale
+  const languageLink = (className: string) => (
+    <a
+      href={withBasePath(getLocalePath(alternateLocale))}
+      hrefLang={LOCALE_SETTINGS[alternateLocale].hreflang}
+      lang={LOCALE_SETTINGS[alternateLocale].hreflang}
+      onClick={rememberLocale}
+      className={className}
+      aria-label={`${navigation.languageLabel}: ${alternateLabel}`}
+    >
+      <Languages className="w-4 h-4" aria-hidden="true" />
+      <span>{alternateLabel}</span>
+    </a>
+  );
+
   return (
     <>
       <motion.header
-        className="fixed top-0 left-0 right-0 z-50 bg-dark-bg/95 backdrop-blur-sm border-b border-dark-border"
+        className="fixed top-0 inset-x-0 z-50 print:hidden bg-dark-bg/95 backdrop-blur-sm border-b border-dark-border"
         initial={{ y: -100, opacity: 0 }}
         animate={{ y: 0, opacity: 1 }}
         transition={{ duration: 0.6, ease: 'easeOut' }}
@@ -30,20 +100,20 @@ export default function Header() {
             {/* Logo */}
             <motion.button
               onClick={scrollToTop}
-              className="flex items-center space-x-3 focus:outline-none focus:ring-2 focus:ring-auxo-green focus:ring-opacity-50 rounded-lg p-2"
+              className="flex items-center gap-3 focus:outline-none focus:ring-2 focus:ring-auxo-green focus:ring-opacity-50 rounded-lg p-2"
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
-              aria-label="AUXO Data Co. - Return to top"
+              aria-label={navigation.homeLabel}
             >
               <AuxoLogo size="md" />
               <span className="text-pure-white font-bold text-xl tracking-tight">
-                {siteContent.navigation.logo}
+                {navigation.logo}
               </span>
             </motion.button>
 
             {/* Desktop Navigation */}
-            <nav className="hidden md:flex items-center space-x-8">
-              {siteContent.navigation.menuItems.map((item) => (
+            <nav className="hidden md:flex items-center gap-8">
+              {menuItems.map((item) => (
                 <motion.a
                   key={item.href}
                   href={item.href}
@@ -54,25 +124,48 @@ export default function Header() {
                   {item.label}
                 </motion.a>
               ))}
+              <button
+                onClick={openSearch}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-dark-border text-limestone hover:text-pure-white hover:border-auxo-green/40 transition-colors focus:outline-none focus:ring-2 focus:ring-auxo-green focus:ring-opacity-50"
+                aria-label={search.dialogLabel}
+                aria-keyshortcuts="Meta+K Control+K"
+              >
+                <Search className="w-4 h-4" />
+                <span className="text-sm">{search.openLabel}</span>
+                <kbd className="text-xs text-limestone/70 font-sans">
+                  {shortcutModifier} {search.shortcutHint}
+                </kbd>
+              </button>
+              {languageLink('flex items-center gap-2 text-sm text-limestone hover:text-pure-white transition-colors duration-200 font-medium')}
               <motion.a
                 href="#engagement"
                 className="bg-auxo-green text-rich-black px-4 py-2 rounded-lg font-semibold hover:bg-opacity-90 transition-all duration-200"
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
               >
-                {siteContent.navigation.ctaButton}
+                {navigation.ctaButton}
               </motion.a>
             </nav>
 
-            {/* Mobile menu button */}
-            <motion.button
-              className="md:hidden p-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-auxo-green focus:ring-opacity-50"
-              onClick={() => setIsMobileMenuOpen(true)}
-              whileTap={{ scale: 0.95 }}
-              aria-label="Open navigation menu"
-            >
-              <Menu className="w-6 h-6 text-limestone" />
-            </motion.button>
+            {/* Mobile search and menu buttons */}
+            <div className="md:hidden flex items-center">
+              <motion.button
+                className="p-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-auxo-green focus:ring-opacity-50"
+                onClick={openSearch}
+                whileTap={{ scale: 0.95 }}
+                aria-label={search.dialogLabel}
+              >
+                <Search className="w-6 h-6 text-limestone" />
+              </motion.button>
+              <motion.button
+                className="p-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-auxo-green focus:ring-opacity-50"
+                onClick={() => setIsMobileMenuOpen(true)}
+                whileTap={{ scale: 0.95 }}
+                aria-label={navigation.openMenuLabel}
+              >
+                <Menu className="w-6 h-6 text-limestone" />
+              </motion.button>
+            </div>
           </div>
         </div>
       </motion.header>
@@ -93,14 +186,14 @@ export default function Header() {
                   onClick={closeMenu}
                   whileTap={{ scale: 0.95 }}
                   className="p-2"
-                  aria-label="Close navigation menu"
+                  aria-label={navigation.closeMenuLabel}
                 >
                   <X className="w-8 h-8 text-limestone" />
                 </motion.button>
               </div>
 
               <nav className="flex flex-col items-center space-y-8">
-                {siteContent.navigation.menuItems.map((item) => (
+                {menuItems.map((item) => (
                   <motion.a
                     key={item.href}
                     href={item.href}
@@ -108,7 +201,7 @@ export default function Header() {
                     className="text-2xl text-limestone hover:text-pure-white transition-colors duration-200 font-semibold"
                     initial={{ y: -20, opacity: 0 }}
                     animate={{ y: 0, opacity: 1 }}
-                    transition={{ delay: 0.1 + siteContent.navigation.menuItems.indexOf(item) * 0.1 }}
+                    transition={{ delay: 0.1 + menuItems.indexOf(item) * 0.1 }}
                   >
                     {item.label}
                   </motion.a>
@@ -119,15 +212,18 @@ export default function Header() {
                   className="mt-4 bg-auxo-green text-rich-black px-8 py-3 rounded-lg text-xl font-semibold hover:bg-opacity-90 transition-all duration-200"
                   initial={{ y: -20, opacity: 0 }}
                   animate={{ y: 0, opacity: 1 }}
-                  transition={{ delay: 0.2 + siteContent.navigation.menuItems.length * 0.1 }}
+                  transition={{ delay: 0.2 + menuItems.length * 0.1 }}
                 >
-                  {siteContent.navigation.ctaButton}
+                  {navigation.ctaButton}
                 </motion.a>
+                {languageLink('flex items-center gap-2 text-lg text-limestone hover:text-pure-white transition-colors duration-200')}
               </nav>
             </div>
           </motion.div>
         )}
       </AnimatePresence>
+
+      <SearchPalette isOpen={isSearchOpen} onClose={closeSearch} initialQuery={initialQuery} />
     </>
   );
 }
\ No newline at end of file
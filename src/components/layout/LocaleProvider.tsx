@@ -0,0 +1,51 @@
+'use client';
+
+import { createContext, useContext, type ReactNode } from 'react';
+import { getSiteContent } from '@/lib/dictionaries';
+import { DEFAULT_LOCALE, LOCALE_SETTINGS, type Locale } from '@/lib/i18n';
+
+const LocaleContext = createContext<Locale>(DEFAULT_LOCALE);
+
+interface LocaleProviderProps {
+  locale: Locale;
+  children: ReactNode;
+}
+
+/**
+ * Makes the page locale available to client components
+ * Pages outside a provider fall back to the default locale
+ */
+export default function LocaleProvider({ locale, children }: LocaleProviderProps) {
+  return <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>;
+}
+
+export function useLocale(): Locale {
+  return useContext(LocaleContext);
+}
+
+/**
+ * Site content in the page locale
+ *
+ * @example
+ * ```tsx
+ * const { hero } = useSiteContent();
+ * ```
+ */
+export function useSiteContent() {
+  return getSiteContent(useLocale());
+}
+
+/**
+ * Writing direction of the page locale, plus the sign that mirrors
+ * horizontal motion offsets in right-to-left layouts
+ *
+ * @example
+ * ```tsx
+ * const { sign } = useDirection();
+ * <motion.div initial={{ x: -50 * sign }} />
+ * ```
+ */
+export function useDirection() {
+  const { dir } = LOCALE_SETTINGS[useLocale()];
+  return { dir, isRtl: dir === 'rtl', sign: dir === 'rtl' ? -1 : 1 };
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import { useEffect } from 'react';
+import StatusPage from '../ui/StatusPage';
+import { useSiteContent } from './LocaleProvider';
+import { trackError } from '@/lib/analytics';
+
+interface RouteErrorProps {
+  error: Error & { digest?: string };
+  reset: () => void;
+}
+
+/**
+ * Branded error page for render errors in a route segment, in the page locale
+ * Re-exported as error.tsx by each root layout's segment
+ *
+ * @returns Error page with a retry button and suggested destinations
+ */
+export default function RouteError({ error, reset }: RouteErrorProps) {
+  const { errorPage } = useSiteContent();
+
+  useEffect(() => {
+    trackError(error.message, error.stack, 'route_error');
+  }, [error]);
+
+  return <StatusPage statusCode={500} content={errorPage} onRetry={reset} />;
+}
@@ -2,7 +2,7 @@
 
 import { motion, useInView } from 'framer-motion';
 import { useRef, Suspense } from 'react';
-import { siteContent } from '@/lib/constants';
+import { useSiteContent } from '../layout/LocaleProvider';
 import { staggerContainer, sectionVariants } from '@/lib/animations';
 import { lazy } from 'react';
 
@@ -10,6 +10,7 @@ import { lazy } from 'react';
 const ChallengeBleedAnimation = lazy(() => import('@/components/ui/ChallengeBleedAnimation'));
 
 export default function ChallengeSection() {
+  const siteContent = useSiteContent();
   const ref = useRef(null);
   const isInView = useInView(ref, { once: true, amount: 0.2 });
 
@@ -18,7 +19,7 @@ export default function ChallengeSection() {
       id="challenge" 
       ref={ref} 
       className="py-32 bg-gradient-to-b from-rich-black via-red-950/20 to-gray-900 relative overflow-hidden"
-      aria-label="Business challenges and data problems"
+      aria-label={siteContent.challenge.sectionLabel}
       role="region"
     >
       {/* New Emotional Progression Animation - Value Drain */}
@@ -72,7 +73,7 @@ export default function ChallengeSection() {
             
             {/* Animated emphasis */}
             <motion.div
-              className="inline-flex items-center space-x-3 bg-auxo-green/10 px-6 py-3 rounded-full border border-auxo-green/30"
+              className="inline-flex items-center gap-3 bg-auxo-green/10 px-6 py-3 rounded-full border border-auxo-green/30"
               whileHover={{ scale: 1.05 }}
               transition={{ duration: 0.2 }}
             >
@@ -126,10 +127,10 @@ export default function ChallengeSection() {
               {siteContent.challenge.visionText}
             </p>
             <motion.div
-              className="flex items-center justify-center space-x-4"
+              className="flex items-center justify-center gap-4"
               whileHover={{ scale: 1.05 }}
             >
-              <span className="text-auxo-green font-semibold text-lg">See how we make this reality</span>
+              <span className="text-auxo-green font-semibold text-lg">{siteContent.challenge.visionLinkText}</span>
               <motion.svg
                 className="w-6 h-6 text-auxo-green"
                 fill="none"
@@ -2,7 +2,7 @@
 
 import { motion, useInView } from 'framer-motion';
 import { useRef, Suspense, lazy } from 'react';
-import { siteContent } from '@/lib/constants';
+import { useDirection, useSiteContent } from '../layout/LocaleProvider';
 import { staggerContainer, sectionVariants } from '@/lib/animations';
 import SchedulingEmbed from '@/components/ui/SchedulingEmbed';
 
@@ -10,6 +10,8 @@ import SchedulingEmbed from '@/components/ui/SchedulingEmbed';
 const EngagementNetworkAnimation = lazy(() => import('@/components/ui/EngagementNetworkAnimation'));
 
 export default function EngagementSection() {
+  const siteContent = useSiteContent();
+  const { sign } = useDirection();
   const ref = useRef(null);
   const isInView = useInView(ref, { once: true, amount: 0.2 });
 
@@ -18,7 +20,7 @@ export default function EngagementSection() {
       id="engagement" 
       ref={ref} 
       className="py-32 bg-gradient-to-b from-petrol-ink via-petrol-ink to-petrol-ink/95 relative overflow-hidden"
-      aria-label="Schedule consultation and engagement"
+      aria-label={siteContent.engagement.sectionLabel}
       role="region"
     >
       {/* New Emotional Progression Animation - Neural Awakening */}
@@ -77,7 +79,7 @@ export default function EngagementSection() {
             {siteContent.engagement.trustIndicators.map((item, index) => (
               <motion.div
                 key={index}
-                className="flex items-center space-x-3 bg-petrol-ink/50 px-4 py-2 rounded-full border border-auxo-green/20"
+                className="flex items-center gap-3 bg-petrol-ink/50 px-4 py-2 rounded-full border border-auxo-green/20"
                 initial={{ opacity: 0, scale: 0 }}
                 animate={isInView ? { opacity: 1, scale: 1 } : { opacity: 0, scale: 0 }}
                 transition={{ delay: 0.8 + index * 0.1, duration: 0.4 }}
@@ -94,8 +96,8 @@ export default function EngagementSection() {
         <div className="grid lg:grid-cols-5 gap-12 items-start">
           {/* Left Column - Value Proposition (2 columns) */}
           <motion.div
-            initial={{ opacity: 0, x: -50 }}
-            animate={isInView ? { opacity: 1, x: 0 } : { opacity: 0, x: -50 }}
+            initial={{ opacity: 0, x: -50 * sign }}
+            animate={isInView ? { opacity: 1, x: 0 } : { opacity: 0, x: -50 * sign }}
             transition={{ delay: 0.5, duration: 0.8 }}
             className="lg:col-span-2 space-y-8"
           >
@@ -108,7 +110,7 @@ export default function EngagementSection() {
                 {siteContent.engagement.processSteps.map((item, index) => (
                   <motion.div
                     key={index}
-                    className="flex items-start space-x-4"
+                    className="flex items-start gap-4"
                     initial={{ opacity: 0, y: 20 }}
                     animate={isInView ? { opacity: 1, y: 0 } : { opacity: 0, y: 20 }}
                     transition={{ delay: 1 + index * 0.2, duration: 0.6 }}
@@ -132,7 +134,7 @@ export default function EngagementSection() {
               animate={isInView ? { opacity: 1, scale: 1 } : { opacity: 0, scale: 0.95 }}
               transition={{ delay: 1.5, duration: 0.6 }}
             >
-              <div className="flex items-start space-x-4">
+              <div className="flex items-start gap-4">
                 <div className="w-12 h-12 bg-auxo-green/20 rounded-full flex items-center justify-center flex-shrink-0">
                   <svg className="w-6 h-6 text-auxo-green" fill="currentColor" viewBox="0 0 24 24">
                     <path d="M14.017 21v-7.391c0-5.704 3.731-9.57 8.983-10.609l.995 2.151c-2.432.917-3.995 3.638-3.995 5.849h4v10h-9.983zm-14.017 0v-7.391c0-5.704 3.748-9.57 9-10.609l.996 2.151c-2.433.917-3.996 3.638-3.996 5.849h4v10h-10z"/>
@@ -152,8 +154,8 @@ export default function EngagementSection() {
 
           {/* Right Column - Scheduling Interface (3 columns for more space) */}
           <motion.div
-            initial={{ opacity: 0, x: 50 }}
-            animate={isInView ? { opacity: 1, x: 0 } : { opacity: 0, x: 50 }}
+            initial={{ opacity: 0, x: 50 * sign }}
+            animate={isInView ? { opacity: 1, x: 0 } : { opacity: 0, x: 50 * sign }}
             transition={{ delay: 0.7, duration: 0.8 }}
             className="lg:col-span-3"
           >
@@ -3,12 +3,14 @@
 import { motion, useInView } from 'framer-motion';
 import { useRef, Suspense, lazy } from 'react';
 import { staggerContainer, sectionVariants } from '@/lib/animations';
-import { siteContent } from '@/lib/constants';
+import { useDirection, useSiteContent } from '../layout/LocaleProvider';
 
 // Lazy load new emotional progression animation
 const FrameworkBuildAnimation = lazy(() => import('@/components/ui/FrameworkBuildAnimation'));
 
 export default function FrameworkSection() {
+  const siteContent = useSiteContent();
+  const { sign } = useDirection();
   const ref = useRef(null);
   const isInView = useInView(ref, { once: true, amount: 0.2 });
 
@@ -17,7 +19,7 @@ export default function FrameworkSection() {
       id="framework" 
       ref={ref} 
       className="py-32 bg-gradient-to-b from-gray-900 via-petrol-ink/30 to-slate-900 relative overflow-hidden"
-      aria-label="AUXO framework and methodology"
+      aria-label={siteContent.framework.sectionLabel}
       role="region"
     >
       {/* New Emotional Progression Animation - Systematic Assembly */}
@@ -67,8 +69,8 @@ export default function FrameworkSection() {
           {siteContent.framework.pillars.map((pillar, index) => (
             <motion.div
               key={index}
-              initial={{ opacity: 0, x: index % 2 === 0 ? -100 : 100 }}
-              animate={isInView ? { opacity: 1, x: 0 } : { opacity: 0, x: index % 2 === 0 ? -100 : 100 }}
+              initial={{ opacity: 0, x: (index % 2 === 0 ? -100 : 100) * sign }}
+              animate={isInView ? { opacity: 1, x: 0 } : { opacity: 0, x: (index % 2 === 0 ? -100 : 100) * sign }}
               transition={{ duration: 0.8, delay: index * 0.3 }}
               className={`flex flex-col lg:flex-row items-center gap-12 ${index % 2 === 1 ? 'lg:flex-row-reverse' : ''}`}
             >
@@ -94,7 +96,7 @@ export default function FrameworkSection() {
               </div>
 
               {/* Pillar Content */}
-              <div className="flex-1 text-center lg:text-left">
+              <div className="flex-1 text-center lg:text-start">
                 <h3 className="text-2xl md:text-3xl font-bold text-pure-white mb-2">
                   {pillar.title}
                 </h3>
@@ -110,9 +112,9 @@ export default function FrameworkSection() {
                   {pillar.benefits.map((benefit, benefitIndex) => (
                     <motion.div
                       key={benefitIndex}
-                      className="flex items-center space-x-2"
-                      initial={{ opacity: 0, x: -20 }}
-                      animate={isInView ? { opacity: 1, x: 0 } : { opacity: 0, x: -20 }}
+                      className="flex items-center gap-2"
+                      initial={{ opacity: 0, x: -20 * sign }}
+                      animate={isInView ? { opacity: 1, x: 0 } : { opacity: 0, x: -20 * sign }}
                       transition={{ delay: index * 0.3 + benefitIndex * 0.1 + 0.8, duration: 0.4 }}
                     >
                       <div className="w-2 h-2 bg-auxo-green rounded-full flex-shrink-0" />
@@ -2,7 +2,7 @@
 
 import { motion } from 'framer-motion';
 import { lazy, Suspense } from 'react';
-import { siteContent } from '../../lib/constants';
+import { useSiteContent } from '../layout/LocaleProvider';
 import { heroVariants, heroTextVariants, heroHeadlineVariants, buttonVariants } from '../../lib/animations';
 import { trackPerformanceMetric } from '../../lib/performance';
 
@@ -31,6 +31,7 @@ interface HeroSectionProps {
  * @returns Hero section with optimized performance and animations
  */
 export default function HeroSection({ onCTAClick }: HeroSectionProps) {
+  const siteContent = useSiteContent();
   /**
    * Handle CTA button click with performance tracking
    */
@@ -58,7 +59,7 @@ export default function HeroSection({ onCTAClick }: HeroSectionProps) {
     <section 
       id="hero" 
       className="relative min-h-screen flex items-center justify-center overflow-hidden"
-      aria-label="Hero section with main call to action"
+      aria-label={siteContent.hero.sectionLabel}
       role="banner"
     >
       {/* New Emotional Progression Animation - Digital Scatter */}
@@ -114,7 +115,7 @@ export default function HeroSection({ onCTAClick }: HeroSectionProps) {
             whileHover="hover"
             whileTap="tap"
             onClick={handleCTAClick}
-            aria-label="Discover what you're missing - Schedule strategic assessment"
+            aria-label={siteContent.hero.ctaLabel}
           >
             {siteContent.hero.ctaText}
           </motion.button>
@@ -1,8 +1,12 @@
 'use client';
 
 import { motion, useInView, AnimatePresence } from 'framer-motion';
-import { useRef, useState, useEffect, Suspense, lazy } from 'react';
-import { siteContent } from '@/lib/constants';
+import { useRef, useState, useEffect, useMemo, Suspense, lazy } from 'react';
+import Link from 'next/link';
+import { useDirection, useLocale, useSiteContent } from '../layout/LocaleProvider';
+import { getCaseStudyHref, getLocalizedCaseStudies } from '@/lib/caseStudies';
+import { formatCurrencyConversion, formatMetricValue } from '@/lib/format';
+import type { CaseStudy } from '@/types/caseStudy';
 import {
   staggerContainer,
   sectionVariants,
@@ -15,12 +19,14 @@ import { ChevronLeft, ChevronRight } from 'lucide-react';
 const ImpactFlowAnimation = lazy(() => import('@/components/ui/ImpactFlowAnimation'));
 
 
-
 // Single Impact Story Component with Smooth Carousel
 function ImpactStory({ story, direction }: {
-  story: (typeof siteContent.impact.stories)[number];
+  story: CaseStudy;
   direction: number;
 }) {
+  const locale = useLocale();
+  const { impact } = useSiteContent();
+
   return (
     <motion.div
       key={story.id}
@@ -48,17 +54,25 @@ function ImpactStory({ story, direction }: {
             }}
           />
 
-          {/* Industry badge */}
-          <motion.div
-            className="inline-block px-4 py-2 bg-auxo-green/10 rounded-full mb-6"
-            initial={{ opacity: 0, scale: 0 }}
-            animate={{ opacity: 1, scale: 1 }}
-            transition={{ delay: 0.2, duration: 0.5 }}
-          >
-            <span className="text-auxo-green text-sm font-semibold uppercase tracking-wider">
-              {story.industry}
-            </span>
-          </motion.div>
+          {/* Industry badge and case study link */}
+          <div className="relative flex flex-wrap items-center justify-between gap-4 mb-6">
+            <motion.div
+              className="inline-block px-4 py-2 bg-auxo-green/10 rounded-full"
+              initial={{ opacity: 0, scale: 0 }}
+              animate={{ opacity: 1, scale: 1 }}
+              transition={{ delay: 0.2, duration: 0.5 }}
+            >
+              <span className="text-auxo-green text-sm font-semibold uppercase tracking-wider">
+                {story.industry}
+              </span>
+            </motion.div>
+            <Link
+              href={getCaseStudyHref(story.id)}
+              className="text-auxo-green text-sm font-semibold hover:underline"
+            >
+              {impact.caseStudyLinkText} →
+            </Link>
+          </div>
 
           {/* Client name */}
           <motion.h3
@@ -78,10 +92,10 @@ function ImpactStory({ story, direction }: {
               transition={{ delay: 0.4, duration: 0.6 }}
             >
               <h4 className="text-auxo-green text-sm font-semibold uppercase tracking-wider mb-3">
-                Challenge
+                {impact.challengeLabel}
               </h4>
               <p className="text-limestone/90 text-lg leading-relaxed">
-                {story.challenge}
+                {story.summary.challenge}
               </p>
             </motion.div>
 
@@ -91,10 +105,10 @@ function ImpactStory({ story, direction }: {
               transition={{ delay: 0.5, duration: 0.6 }}
             >
               <h4 className="text-auxo-green text-sm font-semibold uppercase tracking-wider mb-3">
-                Outcome
+                {impact.outcomeLabel}
               </h4>
               <p className="text-pure-white text-lg font-medium leading-relaxed">
-                {story.outcome}
+                {story.summary.outcome}
               </p>
             </motion.div>
           </div>
@@ -106,28 +120,32 @@ function ImpactStory({ story, direction }: {
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.6, duration: 0.6 }}
           >
-            {story.keyMetrics.map((metric, index) => (
-              <motion.div
-                key={index}
-                className="text-center p-6 bg-petrol-ink/30 rounded-2xl border border-auxo-green/10 hover:border-auxo-green/30 transition-all duration-300"
-                initial={{ opacity: 0, scale: 0, rotateY: 90 }}
-                animate={{ opacity: 1, scale: 1, rotateY: 0 }}
-                transition={{ delay: 0.7 + index * 0.1, duration: 0.5 }}
-                whileHover={{ scale: 1.05, y: -5 }}
-              >
-                <div className="text-2xl md:text-3xl font-bold text-auxo-green mb-2">
-                  {metric.value}
-                </div>
-                <div className="text-limestone text-sm font-medium uppercase tracking-wider">
-                  {metric.label}
-                </div>
-              </motion.div>
-            ))}
+            {story.metrics.map((metric, index) => {
+              const conversion = formatCurrencyConversion(metric, locale);
+              return (
+                <motion.div
+                  key={index}
+                  className="text-center p-6 bg-petrol-ink/30 rounded-2xl border border-auxo-green/10 hover:border-auxo-green/30 transition-all duration-300"
+                  initial={{ opacity: 0, scale: 0, rotateY: 90 }}
+                  animate={{ opacity: 1, scale: 1, rotateY: 0 }}
+                  transition={{ delay: 0.7 + index * 0.1, duration: 0.5 }}
+                  whileHover={{ scale: 1.05, y: -5 }}
+                >
+                  <div className="text-2xl md:text-3xl font-bold text-auxo-green mb-2">
+                    {formatMetricValue(metric, locale)}
+                  </div>
+                  <div className="text-limestone text-sm font-medium uppercase tracking-wider">
+                    {metric.label}
+                  </div>
+                  {conversion && <div className="text-limestone/70 text-xs mt-1">{conversion}</div>}
+                </motion.div>
+              );
+            })}
           </motion.div>
 
           {/* Success indicator */}
           <motion.div
-            className="absolute -left-3 top-1/2 transform -translate-y-1/2 w-6 h-6 bg-auxo-green/60 rounded-full"
+            className="absolute -start-3 top-1/2 transform -translate-y-1/2 w-6 h-6 bg-auxo-green/60 rounded-full"
             animate={{
               scale: [1, 1.2, 1],
               opacity: [0.6, 1, 0.6],
@@ -158,6 +176,9 @@ function ImpactStory({ story, direction }: {
 }
 
 export default function ImpactSection() {
+  const siteContent = useSiteContent();
+  const { sign } = useDirection();
+  const caseStudies = useMemo(() => getLocalizedCaseStudies(siteContent.impact), [siteContent]);
   const ref = useRef(null);
   const isInView = useInView(ref, { once: true, amount: 0.2 });
   const [activeIndex, setActiveIndex] = useState(0);
@@ -167,20 +188,20 @@ export default function ImpactSection() {
   useEffect(() => {
     const interval = setInterval(() => {
       setDirection(1);
-      setActiveIndex((prev) => (prev + 1) % siteContent.impact.stories.length);
+      setActiveIndex((prev) => (prev + 1) % caseStudies.length);
     }, 8000); // Change every 8 seconds
 
     return () => clearInterval(interval);
-  }, []);
+  }, [caseStudies.length]);
 
   const nextStory = () => {
     setDirection(1);
-    setActiveIndex((prev) => (prev + 1) % siteContent.impact.stories.length);
+    setActiveIndex((prev) => (prev + 1) % caseStudies.length);
   };
 
   const prevStory = () => {
     setDirection(-1);
-    setActiveIndex((prev) => (prev - 1 + siteContent.impact.stories.length) % siteContent.impact.stories.length);
+    setActiveIndex((prev) => (prev - 1 + caseStudies.length) % caseStudies.length);
   };
 
   return (
@@ -188,7 +209,7 @@ export default function ImpactSection() {
       id="impact" 
       ref={ref} 
       className="py-24 bg-gradient-to-b from-slate-900 via-gray-800 to-rich-black relative overflow-hidden"
-      aria-label="Client success stories and impact metrics"
+      aria-label={siteContent.impact.sectionLabel}
       role="region"
     >
       {/* New Emotional Progression Animation - Success Streams */}
@@ -258,42 +279,43 @@ export default function ImpactSection() {
         {/* Impact Story Carousel */}
         <div className="relative mb-16">
           {/* Navigation Buttons */}
-          <div className="absolute left-0 top-1/2 transform -translate-y-1/2 z-20 -ml-4">
+          <div className="absolute start-0 top-1/2 transform -translate-y-1/2 z-20 -ms-4">
             <motion.button
               onClick={prevStory}
               className="w-12 h-12 bg-auxo-green/20 hover:bg-auxo-green/30 rounded-full flex items-center justify-center border border-auxo-green/30 hover:border-auxo-green/50 transition-all duration-300"
               whileHover={{ scale: 1.1 }}
               whileTap={{ scale: 0.95 }}
             >
-              <ChevronLeft className="w-6 h-6 text-auxo-green" />
+              <ChevronLeft className="w-6 h-6 text-auxo-green rtl:rotate-180" />
             </motion.button>
           </div>
 
-          <div className="absolute right-0 top-1/2 transform -translate-y-1/2 z-20 -mr-4">
+          <div className="absolute end-0 top-1/2 transform -translate-y-1/2 z-20 -me-4">
             <motion.button
               onClick={nextStory}
               className="w-12 h-12 bg-auxo-green/20 hover:bg-auxo-green/30 rounded-full flex items-center justify-center border border-auxo-green/30 hover:border-auxo-green/50 transition-all duration-300"
               whileHover={{ scale: 1.1 }}
               whileTap={{ scale: 0.95 }}
             >
-              <ChevronRight className="w-6 h-6 text-auxo-green" />
+              <ChevronRight className="w-6 h-6 text-auxo-green rtl:rotate-180" />
             </motion.button>
           </div>
 
           {/* Story Display */}
           <div className="min-h-[500px] flex items-center justify-center relative">
-            <AnimatePresence mode="wait" custom={direction}>
+            {/* Slides travel the other way in right-to-left layouts */}
+            <AnimatePresence mode="wait" custom={direction * sign}>
               <ImpactStory
-                key={siteContent.impact.stories[activeIndex].id}
-                story={siteContent.impact.stories[activeIndex]}
-                direction={direction}
+                key={caseStudies[activeIndex].id}
+                story={caseStudies[activeIndex]}
+                direction={direction * sign}
               />
             </AnimatePresence>
           </div>
 
           {/* Progress Indicators */}
-          <div className="flex justify-center space-x-3 mt-8">
-            {siteContent.impact.stories.map((_, index) => (
+          <div className="flex justify-center gap-3 mt-8">
+            {caseStudies.map((_, index) => (
               <motion.button
                 key={index}
                 onClick={() => setActiveIndex(index)}
@@ -1,7 +1,10 @@
 'use client'
 
-import { useEffect } from 'react'
+import { Suspense, useEffect } from 'react'
 import Script from 'next/script'
+import { usePathname, useSearchParams } from 'next/navigation'
+import { trackPageView } from '../../lib/analytics'
+import { applyPrivacySignal, toConsentModeState } from '../../lib/consent'
 
 const GA_MEASUREMENT_ID = process.env.NEXT_PUBLIC_GA_MEASUREMENT_ID
 
@@ -19,6 +22,21 @@ declare global {
   }
 }
 
+/**
+ * Sends a page view for the first load and every client-side navigation,
+ * which keeps the document and so never reloads gtag
+ */
+function PageViewTracker() {
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  useEffect(() => {
+    trackPageView(window.location.href, document.title)
+  }, [pathname, searchParams])
+
+  return null
+}
+
 export default function Analytics() {
   useEffect(() => {
     // Initialize gtag with consent mode
@@ -29,38 +47,45 @@ export default function Analytics() {
       }
       window.gtag('js', new Date())
       
-      // Set default consent state
+      // Set default consent state (Consent Mode v2)
       window.gtag('consent', 'default', {
-        analytics_storage: 'denied',
-        ad_storage: 'denied',
+        ...toConsentModeState(null),
         wait_for_update: 500,
       })
 
-      // Check for existing consent
-      const analyticsConsent = localStorage.getItem('analytics-consent')
-      if (analyticsConsent === 'true') {
-        window.gtag('consent', 'update', {
-          analytics_storage: 'granted'
-        })
+      // Apply an existing choice for the current policy version, or essential-only
+      // cookies when the browser sends Global Privacy Control or Do Not Track
+      const consentRecord = applyPrivacySignal()
+      if (consentRecord) {
+        window.gtag('consent', 'update', toConsentModeState(consentRecord))
       }
 
-      // Configure GA
+      // Configure GA; PageViewTracker sends page views through the consent queue
       if (GA_MEASUREMENT_ID) {
         window.gtag('config', GA_MEASUREMENT_ID, {
           page_title: document.title,
           page_location: window.location.href,
+          send_page_view: false,
         })
       }
     }
   }, [])
 
-  // Don't render scripts if no measurement ID
+  // useSearchParams needs a Suspense boundary in the static export
+  const pageViews = (
+    <Suspense fallback={null}>
+      <PageViewTracker />
+    </Suspense>
+  )
+
+  // Don't render scripts if no measurement ID; page views still reach the other adapters
   if (!GA_MEASUREMENT_ID) {
-    return null
+    return pageViews
   }
 
   return (
     <>
+      {pageViews}
       <Script
         strategy="afterInteractive"
         src={`https://www.googletagmanager.com/gtag/js?id=${GA_MEASUREMENT_ID}`}
@@ -76,11 +101,14 @@ export default function Analytics() {
             gtag('consent', 'default', {
               analytics_storage: 'denied',
               ad_storage: 'denied',
+              ad_user_data: 'denied',
+              ad_personalization: 'denied',
               wait_for_update: 500,
             });
             gtag('config', '${GA_MEASUREMENT_ID}', {
               page_title: document.title,
               page_location: window.location.href,
+              send_page_view: false,
             });
           `,
         }}
@@ -0,0 +1,65 @@
+import type { BlogPost } from '@/types/blog';
+import { insightsContent } from '@/lib/constants';
+import OptimizedImage from './OptimizedImage';
+
+interface AuthorCardProps {
+  author: BlogPost['author'];
+  /** Compact inline variant for post cards */
+  compact?: boolean;
+}
+
+const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .map((part) => part[0])
+    .join('')
+    .slice(0, 2)
+    .toUpperCase();
+
+/**
+ * Author avatar, name and role; falls back to initials when no avatar is set
+ */
+export default function AuthorCard({ author, compact = false }: AuthorCardProps) {
+  const size = compact ? 'w-8 h-8 text-xs' : 'w-14 h-14 text-lg';
+
+  const avatar = author.avatar ? (
+    <OptimizedImage
+      src={author.avatar}
+      alt=""
+      fill
+      sizes={compact ? '32px' : '56px'}
+      placeholder="empty"
+      className={`${size} rounded-full flex-shrink-0`}
+    />
+  ) : (
+    <span
+      className={`${size} rounded-full bg-auxo-green/20 text-auxo-green font-bold flex items-center justify-center flex-shrink-0`}
+      aria-hidden="true"
+    >
+      {getInitials(author.name)}
+    </span>
+  );
+
+  if (compact) {
+    return (
+      <div className="flex items-center space-x-3">
+        {avatar}
+        <div className="text-sm">
+          <p className="text-pure-white font-medium">{author.name}</p>
+          <p className="text-limestone/70 text-xs">{author.role}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-4 p-6 bg-petrol-ink/30 rounded-xl border border-auxo-green/10">
+      {avatar}
+      <div>
+        <p className="text-limestone/70 text-xs uppercase tracking-wide mb-1">{insightsContent.writtenByLabel}</p>
+        <p className="text-pure-white font-semibold">{author.name}</p>
+        <p className="text-limestone text-sm">{author.role}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { siteContent } from '@/lib/constants';
+import { DEFAULT_LOCALE, getLocalePath } from '@/lib/i18n';
+import { trackCTAClick, trackSchedulingEvent } from '@/lib/analytics';
+import { downloadICS, getBookingEventDetails } from '@/lib/calendar';
+import { decodeBookingToken, resolveBookingManagementService } from '@/lib/bookingTokens';
+import {
+  availabilityRules,
+  formatSlotDate,
+  formatSlotRange,
+  resolveAvailabilitySource,
+  type BookingRecord,
+  type TimeSlot,
+} from '@/lib/scheduling';
+import { getTimeZoneAbbreviation } from '@/lib/timezone';
+import SlotPicker from './SlotPicker';
+
+interface BookingManagerProps {
+  /** Route segment; used as the token when the link carries it in the path */
+  tokenParam: string;
+}
+
+type ManageView = 'verifying' | 'invalid' | 'unavailable' | 'ready' | 'rescheduling' | 'rescheduled' | 'cancelled';
+
+const SessionSummary = ({ booking }: { booking: Pick<BookingRecord, 'slot' | 'hostTimeZone' | 'visitorTimeZone'> }) => {
+  const { scheduling } = siteContent;
+  return (
+    <dl className="inline-grid grid-cols-[auto_auto] gap-x-4 gap-y-1 text-left">
+      <dt className="text-limestone text-sm">{scheduling.yourTimeLabel}</dt>
+      <dd className="text-pure-white">
+        <span className="text-auxo-green font-medium">{formatSlotDate(booking.slot, booking.visitorTimeZone)}</span>
+        {' · '}
+        {formatSlotRange(booking.slot, booking.visitorTimeZone)}{' '}
+        {getTimeZoneAbbreviation(booking.visitorTimeZone, new Date(booking.slot.start))}
+      </dd>
+      <dt className="text-limestone text-sm">{scheduling.hostTimeLabel}</dt>
+      <dd className="text-limestone">
+        {formatSlotDate(booking.slot, booking.hostTimeZone)}
+        {' · '}
+        {formatSlotRange(booking.slot, booking.hostTimeZone)}{' '}
+        {getTimeZoneAbbreviation(booking.hostTimeZone, new Date(booking.slot.start))}
+      </dd>
+    </dl>
+  );
+};
+
+/**
+ * Reschedule and cancel flow for a confirmed booking
+ * Reads the signed token from the URL fragment, has the booking service verify
+ * it and applies changes through the same service
+ */
+export default function BookingManager({ tokenParam }: BookingManagerProps) {
+  const { scheduling } = siteContent;
+  const { manage } = scheduling;
+  const service = useMemo(() => resolveBookingManagementService(), []);
+  const source = useMemo(() => resolveAvailabilitySource(), []);
+
+  const [view, setView] = useState<ManageView>('verifying');
+  const [token, setToken] = useState<string | null>(null);
+  const [booking, setBooking] = useState<BookingRecord | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
+  const [isConfirmingCancel, setIsConfirmingCancel] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const fromHash = decodeURIComponent(window.location.hash.slice(1));
+    const candidate = fromHash || (tokenParam !== 'manage' ? decodeURIComponent(tokenParam) : '');
+
+    try {
+      decodeBookingToken(candidate);
+    } catch (error) {
+      console.warn('Rejected booking token:', error);
+      setView('invalid');
+      return;
+    }
+
+    setToken(candidate);
+    if (!service) {
+      setView('unavailable');
+      return;
+    }
+
+    let cancelled = false;
+    service
+      .verify(candidate)
+      .then((record) => {
+        if (cancelled) return;
+        if (!record) {
+          setView('invalid');
+          return;
+        }
+        setBooking(record);
+        setView(record.status === 'cancelled' ? 'cancelled' : 'ready');
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.warn('Failed to verify booking token:', error);
+        setView('unavailable');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [service, tokenParam]);
+
+  const applyResult = (record: BookingRecord) => {
+    setBooking(record);
+    if (record.manageToken) {
+      // Older links stop verifying once the slot changes, so keep the address bar current
+      setToken(record.manageToken);
+      window.history.replaceState(null, '', `#${record.manageToken}`);
+    }
+  };
+
+  const confirmReschedule = async () => {
+    if (!service || !token || !booking || !selectedSlot || isSubmitting) return;
+    setIsSubmitting(true);
+    setActionError(null);
+
+    try {
+      const record = await service.reschedule(token, selectedSlot);
+      applyResult(record);
+      setView('rescheduled');
+      trackSchedulingEvent('rescheduled', {
+        booking_id: record.id,
+        previous_slot_start: booking.slot.start,
+        slot_start: record.slot.start,
+      });
+    } catch (error) {
+      console.warn('Failed to reschedule booking:', error);
+      setActionError(manage.actionErrorText);
+      setSelectedSlot(null);
+      setReloadKey((key) => key + 1);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const confirmCancel = async () => {
+    if (!service || !token || isSubmitting) return;
+    setIsSubmitting(true);
+    setActionError(null);
+
+    try {
+      const record = await service.cancel(token);
+      setBooking(record);
+      setView('cancelled');
+      trackSchedulingEvent('cancelled', { booking_id: record.id, slot_start: record.slot.start });
+    } catch (error) {
+      console.warn('Failed to cancel booking:', error);
+      setActionError(manage.actionErrorText);
+    } finally {
+      setIsSubmitting(false);
+      setIsConfirmingCancel(false);
+    }
+  };
+
+  const selectSlot = useCallback((slot: TimeSlot | null) => {
+    setSelectedSlot(slot);
+    setActionError(null);
+  }, []);
+
+  const decoded = useMemo(() => {
+    if (!token) return null;
+    try {
+      return decodeBookingToken(token);
+    } catch {
+      return null;
+    }
+  }, [token]);
+
+  const calendarEvent = useMemo(() => (booking ? getBookingEventDetails(booking) : null), [booking]);
+
+  const secondaryButton =
+    'px-6 py-3 rounded-xl text-pure-white border border-auxo-green/30 hover:bg-auxo-green/10 transition-colors disabled:opacity-50';
+  const primaryButton =
+    'bg-gradient-to-r from-auxo-green to-auxo-green/80 text-rich-black font-semibold py-3 px-6 rounded-xl hover:from-auxo-green/90 hover:to-auxo-green/70 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-gradient-to-br from-petrol-ink/90 to-petrol-ink/70 backdrop-blur-sm rounded-2xl border border-auxo-green/20 p-8">
+      <div className="text-center mb-8">
+        <h1 className="text-2xl md:text-3xl font-bold text-pure-white mb-2">{manage.title}</h1>
+        <p className="text-limestone">{scheduling.meetingTitle}</p>
+      </div>
+
+      {view === 'verifying' && (
+        <div className="text-center py-12" role="status">
+          <motion.div
+            className="w-12 h-12 border-3 border-auxo-green border-t-transparent rounded-full mx-auto mb-4"
+            animate={{ rotate: 360 }}
+            transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+          />
+          <p className="text-pure-white font-medium">{manage.verifyingText}</p>
+        </div>
+      )}
+
+      {(view === 'invalid' || view === 'unavailable') && (
+        <div className="bg-petrol-ink/50 rounded-xl p-8 border border-auxo-green/10 text-center" role="alert">
+          {view === 'invalid' ? (
+            <>
+              <h2 className="text-xl font-semibold text-pure-white mb-2">{manage.invalidTitle}</h2>
+              <p className="text-limestone text-sm mb-6">{manage.invalidText}</p>
+            </>
+          ) : (
+            <>
+              {decoded && (
+                <div className="mb-4">
+                  <p className="text-pure-white text-sm font-semibold mb-2">{manage.currentSessionLabel}</p>
+                  <p className="text-auxo-green font-medium">
+                    {formatSlotDate(decoded.slot, availabilityRules.hostTimeZone)}
+                    {' · '}
+                    {formatSlotRange(decoded.slot, availabilityRules.hostTimeZone)}{' '}
+                    {getTimeZoneAbbreviation(availabilityRules.hostTimeZone, new Date(decoded.slot.start))}
+                  </p>
+                </div>
+              )}
+              <p className="text-limestone text-sm mb-6">{manage.unavailableText}</p>
+            </>
+          )}
+          <a
+            href={`mailto:${siteContent.footer.contactEmail}`}
+            onClick={() => trackCTAClick(manage.contactLabel, 'booking_manage')}
+            className="text-auxo-green hover:text-auxo-green/80 transition-colors text-sm underline"
+          >
+            {manage.contactLabel}
+          </a>
+        </div>
+      )}
+
+      {booking && (view === 'ready' || view === 'rescheduling') && (
+        <>
+          <div className="bg-petrol-ink/50 rounded-xl p-6 border border-auxo-green/10 mb-8 text-center">
+            <p className="text-pure-white text-sm font-semibold mb-3">{manage.currentSessionLabel}</p>
+            <SessionSummary booking={booking} />
+            <p className="text-limestone/70 text-xs mt-4">
+              {scheduling.bookingReferenceLabel}: <span className="font-mono">{booking.id}</span>
+            </p>
+          </div>
+
+          {view === 'ready' && (
+            <div className="flex flex-wrap justify-center gap-3">
+              {isConfirmingCancel ? (
+                <div className="w-full text-center">
+                  <p className="text-limestone text-sm mb-4">{manage.cancelPrompt}</p>
+                  <div className="flex flex-wrap justify-center gap-3">
+                    <button onClick={confirmCancel} disabled={isSubmitting} className={primaryButton}>
+                      {manage.confirmCancelButton}
+                    </button>
+                    <button onClick={() => setIsConfirmingCancel(false)} disabled={isSubmitting} className={secondaryButton}>
+                      {manage.keepButton}
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <button onClick={() => setView('rescheduling')} className={primaryButton}>
+                    {manage.rescheduleButton}
+                  </button>
+                  <button onClick={() => setIsConfirmingCancel(true)} className={secondaryButton}>
+                    {manage.cancelButton}
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+
+          {view === 'rescheduling' && (
+            <>
+              <h2 className="text-lg font-semibold text-pure-white mb-4">{manage.rescheduleTitle}</h2>
+              <SlotPicker
+                source={source}
+                timeZone={booking.visitorTimeZone}
+                selectedSlot={selectedSlot}
+                onSelectSlot={selectSlot}
+                reloadKey={reloadKey}
+              >
+                <div className="flex gap-3 mt-8">
+                  <button
+                    onClick={() => {
+                      setView('ready');
+                      setSelectedSlot(null);
+                    }}
+                    disabled={isSubmitting}
+                    className={secondaryButton}
+                  >
+                    {scheduling.qualification.backButton}
+                  </button>
+                  <button
+                    onClick={confirmReschedule}
+                    disabled={!selectedSlot || isSubmitting}
+                    className={`flex-1 ${primaryButton}`}
+                  >
+                    {isSubmitting ? manage.reschedulingText : manage.confirmRescheduleButton}
+                  </button>
+                </div>
+              </SlotPicker>
+            </>
+          )}
+
+          {actionError && (
+            <p className="mt-4 text-sm text-auxo-green text-center" role="alert">{actionError}</p>
+          )}
+        </>
+      )}
+
+      {booking && view === 'rescheduled' && (
+        <div className="bg-petrol-ink/50 rounded-xl p-8 border border-auxo-green/30 text-center" role="status">
+          <h2 className="text-xl font-semibold text-pure-white mb-4">{manage.rescheduledTitle}</h2>
+          <SessionSummary booking={booking} />
+          <p className="text-limestone text-sm mt-4 mb-6">{scheduling.confirmationDescription}</p>
+          {calendarEvent && (
+            <button
+              onClick={() => {
+                downloadICS(calendarEvent);
+                trackCTAClick(scheduling.downloadIcsLabel, 'booking_manage');
+              }}
+              className="bg-auxo-green text-rich-black px-4 py-2 rounded-lg text-sm font-semibold hover:bg-auxo-green/90 transition-colors"
+            >
+              {scheduling.downloadIcsLabel}
+            </button>
+          )}
+        </div>
+      )}
+
+      {view === 'cancelled' && (
+        <div className="bg-petrol-ink/50 rounded-xl p-8 border border-auxo-green/30 text-center" role="status">
+          <h2 className="text-xl font-semibold text-pure-white mb-2">{manage.cancelledTitle}</h2>
+          <p className="text-limestone text-sm mb-6">{manage.cancelledText}</p>
+          <Link href={getLocalePath(DEFAULT_LOCALE, '#engagement')} className={`inline-block ${primaryButton}`}>
+            {manage.bookAgainButton}
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import type { ReactNode } from 'react';
+
+interface CalloutProps {
+  type?: 'insight' | 'tip' | 'warning';
+  title?: string;
+  children: ReactNode;
+}
+
+const calloutStyles = {
+  insight: { border: 'border-auxo-green/40', background: 'bg-auxo-green/10', accent: 'text-auxo-green', icon: '💡' },
+  tip: { border: 'border-petrol-ink', background: 'bg-petrol-ink/40', accent: 'text-limestone', icon: '🎯' },
+  warning: { border: 'border-amber-400/40', background: 'bg-amber-400/10', accent: 'text-amber-300', icon: '⚠️' },
+} as const;
+
+/**
+ * Highlighted aside for key takeaways inside insight articles
+ */
+export default function Callout({ type = 'insight', title, children }: CalloutProps) {
+  const style = calloutStyles[type];
+
+  return (
+    <aside className={`flex items-start space-x-4 rounded-2xl border p-6 ${style.border} ${style.background}`}>
+      <span className="text-2xl leading-none" aria-hidden="true">{style.icon}</span>
+      <div className="text-pure-white/90 leading-relaxed [&>p+p]:mt-3">
+        {title && <p className={`font-semibold mb-2 ${style.accent}`}>{title}</p>}
+        {children}
+      </div>
+    </aside>
+  );
+}
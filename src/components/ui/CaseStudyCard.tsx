@@ -0,0 +1,41 @@
+import Link from 'next/link';
+import { caseStudiesContent } from '@/lib/constants';
+import { getCaseStudyHref } from '@/lib/caseStudies';
+import { formatMetricValue } from '@/lib/format';
+import type { CaseStudy } from '@/types/caseStudy';
+
+interface CaseStudyCardProps {
+  caseStudy: CaseStudy;
+}
+
+/**
+ * Case-study summary card used on the case studies index
+ */
+export default function CaseStudyCard({ caseStudy }: CaseStudyCardProps) {
+  const [headline] = caseStudy.metrics;
+
+  return (
+    <article
+      className={`group relative flex flex-col h-full bg-gradient-to-br ${caseStudy.color} rounded-2xl border border-auxo-green/10 hover:border-auxo-green/30 transition-colors p-6`}
+    >
+      <span className="self-start px-3 py-1 bg-auxo-green/10 rounded-full text-auxo-green text-xs font-semibold uppercase tracking-wider mb-4">
+        {caseStudy.industry}
+      </span>
+      <h2 className="text-xl font-bold text-pure-white mb-3 group-hover:text-auxo-green transition-colors">
+        <Link href={getCaseStudyHref(caseStudy.id)} className="after:absolute after:inset-0">
+          {caseStudy.client}
+        </Link>
+      </h2>
+      <p className="text-limestone text-sm leading-relaxed mb-6 flex-1">{caseStudy.summary.outcome}</p>
+      <div className="flex items-end justify-between gap-4">
+        {headline && (
+          <p>
+            <span className="block text-2xl font-bold text-auxo-green">{formatMetricValue(headline)}</span>
+            <span className="text-limestone text-xs uppercase tracking-wider">{headline.label}</span>
+          </p>
+        )}
+        <span className="text-auxo-green text-sm font-semibold">{caseStudiesContent.readMoreText} →</span>
+      </div>
+    </article>
+  );
+}
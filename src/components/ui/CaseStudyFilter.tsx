@@ -0,0 +1,77 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { caseStudiesContent } from '@/lib/constants';
+import { toIndustrySlug } from '@/lib/caseStudies';
+import type { CaseStudy } from '@/types/caseStudy';
+import CaseStudyCard from './CaseStudyCard';
+
+interface CaseStudyFilterProps {
+  caseStudies: readonly CaseStudy[];
+  industries: string[];
+}
+
+/** Query parameter holding the selected industry slug */
+const INDUSTRY_PARAM = 'industry';
+
+/**
+ * Industry filter and card grid for the case studies index
+ * The selection is mirrored to `?industry=` so filtered views can be shared
+ */
+export default function CaseStudyFilter({ caseStudies, industries }: CaseStudyFilterProps) {
+  const [selected, setSelected] = useState<string | null>(null);
+
+  useEffect(() => {
+    const industry = new URLSearchParams(window.location.search).get(INDUSTRY_PARAM);
+    if (industry && industries.some((item) => toIndustrySlug(item) === industry)) {
+      setSelected(industry);
+    }
+  }, [industries]);
+
+  const select = (industry: string | null) => {
+    setSelected(industry);
+    const url = new URL(window.location.href);
+    if (industry) url.searchParams.set(INDUSTRY_PARAM, industry);
+    else url.searchParams.delete(INDUSTRY_PARAM);
+    window.history.replaceState(window.history.state, '', url);
+  };
+
+  const visible = selected
+    ? caseStudies.filter((caseStudy) => toIndustrySlug(caseStudy.industry) === selected)
+    : caseStudies;
+
+  const buttonClasses = (isActive: boolean) =>
+    `px-4 py-2 rounded-full border text-sm font-semibold transition-colors ${
+      isActive
+        ? 'bg-auxo-green text-rich-black border-auxo-green'
+        : 'border-auxo-green/20 text-limestone hover:text-auxo-green hover:border-auxo-green/40'
+    }`;
+
+  return (
+    <>
+      <div className="flex flex-wrap justify-center gap-3 mb-12" role="group" aria-label={caseStudiesContent.filterLabel}>
+        <button onClick={() => select(null)} className={buttonClasses(selected === null)} aria-pressed={selected === null}>
+          {caseStudiesContent.allIndustriesLabel}
+        </button>
+        {industries.map((industry) => {
+          const slug = toIndustrySlug(industry);
+          return (
+            <button key={slug} onClick={() => select(slug)} className={buttonClasses(selected === slug)} aria-pressed={selected === slug}>
+              {industry}
+            </button>
+          );
+        })}
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-limestone text-center">{caseStudiesContent.emptyFilterText}</p>
+      ) : (
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8" aria-live="polite">
+          {visible.map((caseStudy) => (
+            <CaseStudyCard key={caseStudy.id} caseStudy={caseStudy} />
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
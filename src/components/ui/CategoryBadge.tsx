@@ -0,0 +1,40 @@
+import Link from 'next/link';
+import type { BlogCategory } from '@/types/blog';
+
+interface CategoryBadgeProps {
+  category: BlogCategory;
+  /** Link the badge to the category listing */
+  linked?: boolean;
+  /** Post count shown after the name */
+  count?: number;
+  className?: string;
+}
+
+/**
+ * Pill label tinted with the category's brand color
+ */
+export default function CategoryBadge({ category, linked = true, count, className = '' }: CategoryBadgeProps) {
+  const classes = `inline-flex items-center px-3 py-1 rounded-full border text-xs font-semibold uppercase tracking-wide ${className}`;
+  const style = {
+    color: category.color,
+    backgroundColor: `${category.color}1A`,
+    borderColor: `${category.color}4D`,
+  };
+
+  const label = (
+    <>
+      {category.name}
+      {count !== undefined && <span className="ml-2 opacity-70">{count}</span>}
+    </>
+  );
+
+  if (!linked) {
+    return <span className={classes} style={style}>{label}</span>;
+  }
+
+  return (
+    <Link href={`/insights/category/${category.slug}/`} className={`${classes} hover:opacity-80 transition-opacity`} style={style}>
+      {label}
+    </Link>
+  );
+}
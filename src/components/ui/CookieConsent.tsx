@@ -1,18 +1,59 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import Link from 'next/link'
 import { motion, AnimatePresence } from 'framer-motion'
-import { X, Cookie, Shield, BarChart3 } from 'lucide-react'
+import { X, Cookie, Shield, BarChart3, Gauge, Megaphone, CalendarDays, type LucideIcon } from 'lucide-react'
 import { trackCookieConsent } from '../../lib/analytics'
+import {
+  CONSENT_CATEGORIES,
+  CONSENT_POLICY_VERSION,
+  OPEN_CONSENT_PREFERENCES_EVENT,
+  applyPrivacySignal,
+  getConsent,
+  getConsentRecord,
+  getStoredConsentRecord,
+  saveConsent,
+  type PrivacySignal,
+} from '../../lib/consent'
+import type { ConsentCategory } from '../../types/consent'
+import { useSiteContent } from '../layout/LocaleProvider'
 
+const categoryIcons: Record<ConsentCategory, LucideIcon> = {
+  essential: Shield,
+  analytics: BarChart3,
+  performance: Gauge,
+  marketing: Megaphone,
+  scheduling: CalendarDays,
+}
+
+type ConsentChoices = Record<ConsentCategory, boolean>
+
+// Starts from the visitor's last choice, or essential cookies plus anything allowed from an embed placeholder
+const initialChoices = (): ConsentChoices =>
+  getStoredConsentRecord()?.categories ??
+  (Object.fromEntries(CONSENT_CATEGORIES.map((category) => [category, getConsent(category) === 'granted'])) as ConsentChoices)
+
+/**
+ * Cookie banner with a preferences center
+ * Shown until the visitor chooses for the current policy version, and
+ * re-opened on demand with openConsentPreferences (e.g. from the footer).
+ * Browsers sending Global Privacy Control or Do Not Track skip the banner and
+ * get essential-only cookies, which the preferences center explains.
+ */
 export default function CookieConsent() {
   const [showBanner, setShowBanner] = useState(false)
-  const [showDetails, setShowDetails] = useState(false)
+  const [showPreferences, setShowPreferences] = useState(false)
+  const [choices, setChoices] = useState<ConsentChoices>(initialChoices)
+  const [policyUpdated, setPolicyUpdated] = useState(false)
+  const [appliedSignal, setAppliedSignal] = useState<PrivacySignal | null>(null)
+  const { consent, footer } = useSiteContent()
 
   useEffect(() => {
-    // Check if user has already made a choice
-    const consent = localStorage.getItem('cookie-consent')
-    if (!consent) {
+    // Check if user has already made a choice for this policy version, or a privacy signal made it
+    if (!applyPrivacySignal()) {
+      const storedVersion = getStoredConsentRecord()?.version
+      setPolicyUpdated(storedVersion !== undefined && storedVersion !== CONSENT_POLICY_VERSION)
       // Show banner after a short delay
       const timer = setTimeout(() => {
         setShowBanner(true)
@@ -22,34 +63,44 @@ export default function CookieConsent() {
     }
   }, [])
 
-  const acceptAll = () => {
-    localStorage.setItem('cookie-consent', 'accepted')
-    localStorage.setItem('analytics-consent', 'true')
+  useEffect(() => {
+    const openPreferences = () => {
+      const source = getConsentRecord()?.source
+      setAppliedSignal(source === 'gpc' || source === 'dnt' ? source : null)
+      setChoices(initialChoices())
+      setShowPreferences(true)
+      setShowBanner(true)
+    }
+
+    window.addEventListener(OPEN_CONSENT_PREFERENCES_EVENT, openPreferences)
+    return () => window.removeEventListener(OPEN_CONSENT_PREFERENCES_EVENT, openPreferences)
+  }, [])
+
+  const closeBanner = () => {
     setShowBanner(false)
+    setShowPreferences(false)
+  }
+
+  const acceptAll = () => {
+    closeBanner()
+    // Grants every category and replays the events queued since the page loaded
+    saveConsent(Object.fromEntries(CONSENT_CATEGORIES.map((category) => [category, true])))
     trackCookieConsent('accepted')
-    // Initialize analytics
-    if (typeof window !== 'undefined' && window.gtag) {
-      window.gtag('consent', 'update', {
-        analytics_storage: 'granted'
-      })
-    }
   }
 
   const acceptEssential = () => {
-    localStorage.setItem('cookie-consent', 'essential')
-    localStorage.setItem('analytics-consent', 'false')
-    setShowBanner(false)
-    trackCookieConsent('declined')
-    // Deny analytics
-    if (typeof window !== 'undefined' && window.gtag) {
-      window.gtag('consent', 'update', {
-        analytics_storage: 'denied'
-      })
-    }
+    closeBanner()
+    // Denies everything optional and discards the queued events; the choice itself is not sent
+    saveConsent({})
+  }
+
+  const savePreferences = () => {
+    closeBanner()
+    saveConsent(choices)
   }
 
-  const toggleDetails = () => {
-    setShowDetails(!showDetails)
+  const toggleCategory = (category: ConsentCategory) => {
+    setChoices((current) => ({ ...current, [category]: !current[category] }))
   }
 
   if (!showBanner) return null
@@ -61,25 +112,36 @@ export default function CookieConsent() {
         animate={{ y: 0, opacity: 1 }}
         exit={{ y: 100, opacity: 0 }}
         transition={{ duration: 0.3, ease: 'easeOut' }}
-        className="fixed bottom-0 left-0 right-0 z-50 bg-rich-black/95 backdrop-blur-sm border-t border-dark-border"
+        className="fixed bottom-0 inset-x-0 z-50 print:hidden bg-rich-black/95 backdrop-blur-sm border-t border-dark-border max-h-screen overflow-y-auto"
+        role="dialog"
+        aria-labelledby="cookie-consent-title"
       >
         <div className="max-w-7xl mx-auto p-4 sm:p-6">
           <div className="flex items-start justify-between gap-4">
             <div className="flex-1">
               <div className="flex items-center gap-2 mb-2">
                 <Cookie className="w-5 h-5 text-auxo-green" />
-                <h3 className="text-lg font-semibold text-pure-white">
-                  Strategic Intelligence Requires Your Consent
+                <h3 id="cookie-consent-title" className="text-lg font-semibold text-pure-white">
+                  {consent.title}
                 </h3>
               </div>
-              
+
+              {policyUpdated && (
+                <p className="text-auxo-green text-sm mb-2">{consent.policyUpdatedText}</p>
+              )}
+
               <p className="text-limestone text-sm mb-4 max-w-2xl">
-                We use cookies to optimize your experience and analyze site performance. 
-                Your data privacy is as important to us as your business intelligence.
+                {consent.description}{' '}
+                <Link
+                  href={footer.privacyLink}
+                  className="text-auxo-green underline hover:text-auxo-green/80 transition-colors"
+                >
+                  {consent.privacyLinkText}
+                </Link>
               </p>
 
               <AnimatePresence>
-                {showDetails && (
+                {showPreferences && (
                   <motion.div
                     initial={{ height: 0, opacity: 0 }}
                     animate={{ height: 'auto', opacity: 1 }}
@@ -87,27 +149,52 @@ export default function CookieConsent() {
                     transition={{ duration: 0.3 }}
                     className="overflow-hidden"
                   >
-                    <div className="grid sm:grid-cols-2 gap-4 mb-4 p-4 bg-graphite/30 rounded-lg">
-                      <div className="flex items-start gap-3">
-                        <Shield className="w-5 h-5 text-auxo-green mt-0.5" />
-                        <div>
-                          <h4 className="font-semibold text-pure-white mb-1">Essential Cookies</h4>
-                          <p className="text-limestone text-sm">
-                            Required for site functionality, security, and your scheduled consultations.
-                          </p>
-                        </div>
-                      </div>
-                      
-                      <div className="flex items-start gap-3">
-                        <BarChart3 className="w-5 h-5 text-auxo-green mt-0.5" />
-                        <div>
-                          <h4 className="font-semibold text-pure-white mb-1">Analytics Cookies</h4>
-                          <p className="text-limestone text-sm">
-                            Help us understand how executives engage with our strategic content.
-                          </p>
-                        </div>
-                      </div>
-                    </div>
+                    {appliedSignal && (
+                      <p className="text-auxo-green text-sm mb-4 max-w-2xl" role="status">
+                        {consent.privacySignalText[appliedSignal]}
+                      </p>
+                    )}
+                    <ul className="grid sm:grid-cols-2 gap-4 mb-4 p-4 bg-graphite/30 rounded-lg">
+                      {consent.categories.map((category) => {
+                        const Icon = categoryIcons[category.id]
+                        const isEssential = category.id === 'essential'
+                        const titleId = `cookie-category-${category.id}`
+
+                        return (
+                          <li key={category.id} className="flex items-start gap-3">
+                            <Icon className="w-5 h-5 text-auxo-green mt-0.5 shrink-0" />
+                            <div className="flex-1">
+                              <h4 id={titleId} className="font-semibold text-pure-white mb-1">
+                                {category.title}
+                              </h4>
+                              <p className="text-limestone text-sm">{category.description}</p>
+                            </div>
+                            {isEssential ? (
+                              <span className="text-xs text-limestone whitespace-nowrap mt-1">
+                                {consent.alwaysOnLabel}
+                              </span>
+                            ) : (
+                              <button
+                                type="button"
+                                role="switch"
+                                aria-checked={choices[category.id]}
+                                aria-labelledby={titleId}
+                                onClick={() => toggleCategory(category.id)}
+                                className={`relative inline-flex h-6 w-11 shrink-0 items-center rounded-full transition-colors mt-0.5 ${
+                                  choices[category.id] ? 'bg-auxo-green' : 'bg-dark-border'
+                                }`}
+                              >
+                                <span
+                                  className={`inline-block h-4 w-4 rounded-full bg-pure-white transition-transform ${
+                                    choices[category.id] ? 'translate-x-6 rtl:-translate-x-6' : 'translate-x-1 rtl:-translate-x-1'
+                                  }`}
+                                />
+                              </button>
+                            )}
+                          </li>
+                        )
+                      })}
+                    </ul>
                   </motion.div>
                 )}
               </AnimatePresence>
@@ -117,29 +204,39 @@ export default function CookieConsent() {
                   onClick={acceptAll}
                   className="bg-auxo-green text-rich-black px-6 py-2 rounded-lg font-semibold hover:bg-auxo-green/90 transition-colors"
                 >
-                  Accept All
+                  {consent.acceptAllText}
                 </button>
-                
+
                 <button
                   onClick={acceptEssential}
                   className="bg-transparent text-pure-white px-6 py-2 rounded-lg font-semibold border border-dark-border hover:bg-dark-border/50 transition-colors"
                 >
-                  Essential Only
+                  {consent.essentialOnlyText}
                 </button>
-                
+
+                {showPreferences && (
+                  <button
+                    onClick={savePreferences}
+                    className="bg-transparent text-auxo-green px-6 py-2 rounded-lg font-semibold border border-auxo-green hover:bg-auxo-green/10 transition-colors"
+                  >
+                    {consent.saveText}
+                  </button>
+                )}
+
                 <button
-                  onClick={toggleDetails}
+                  onClick={() => setShowPreferences(!showPreferences)}
                   className="text-limestone hover:text-pure-white transition-colors text-sm underline"
+                  aria-expanded={showPreferences}
                 >
-                  {showDetails ? 'Hide Details' : 'Cookie Details'}
+                  {showPreferences ? consent.hidePreferencesText : consent.preferencesText}
                 </button>
               </div>
             </div>
 
             <button
-              onClick={() => setShowBanner(false)}
+              onClick={closeBanner}
               className="text-limestone hover:text-pure-white transition-colors p-1"
-              aria-label="Close cookie banner"
+              aria-label={consent.closeLabel}
             >
               <X className="w-5 h-5" />
             </button>
@@ -149,4 +246,3 @@ export default function CookieConsent() {
     </AnimatePresence>
   )
 }
-
@@ -16,6 +16,8 @@ interface Particle {
 
 interface HeroScatterAnimationProps {
   className?: string;
+  /** Fewer particles and no clustering, for pages where the animation is only a backdrop */
+  lightweight?: boolean;
 }
 
 /**
@@ -26,14 +28,16 @@ interface HeroScatterAnimationProps {
  * Visual Feel: Data fragments float and drift like digital snow, 
  * occasionally forming glimpses of patterns before dissolving.
  * Creates mesmerizing yet unsettling effect of opportunities slipping away.
+ * The lightweight mode keeps the drift and pulse but skips the clustering
+ * neighbour search, which is the expensive part of each frame.
  */
-export default function HeroScatterAnimation({ className = '' }: HeroScatterAnimationProps) {
+export default function HeroScatterAnimation({ className = '', lightweight = false }: HeroScatterAnimationProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const particlesRef = useRef<Particle[]>([]);
   const animationFrameRef = useRef<number>(0);
   const lastFrameTimeRef = useRef<number>(0);
 
-  const PARTICLE_COUNT = 65;
+  const PARTICLE_COUNT = lightweight ? 24 : 65;
   const CLUSTER_PROBABILITY = 0.15;
   const PULSE_INTERVAL = 3500;
   const DRIFT_SPEED = 0.3;
@@ -79,7 +83,7 @@ export default function HeroScatterAnimation({ className = '' }: HeroScatterAnim
       if (particle.y > containerHeight + 10) particle.y = -10;
 
       // Clustering behavior
-      if (Math.random() < CLUSTER_PROBABILITY * deltaTime * 0.001) {
+      if (!lightweight && Math.random() < CLUSTER_PROBABILITY * deltaTime * 0.001) {
         if (!particle.clusterTarget) {
           // Find nearby particles to cluster with
           const nearbyParticles = particlesRef.current.filter((other, otherIndex) => {
@@ -133,7 +137,7 @@ export default function HeroScatterAnimation({ className = '' }: HeroScatterAnim
       particle.element.style.transform = `translate3d(${particle.x}px, ${particle.y}px, 0) scale(${finalScale})`;
       particle.element.style.opacity = finalOpacity.toString();
     });
-  }, []);
+  }, [lightweight]);
 
   const animate = useCallback((currentTime: number) => {
     if (!containerRef.current) return;
@@ -180,7 +184,7 @@ export default function HeroScatterAnimation({ className = '' }: HeroScatterAnim
     // Start animation
     lastFrameTimeRef.current = performance.now();
     animationFrameRef.current = requestAnimationFrame(animate);
-  }, [createParticle, animate]);
+  }, [createParticle, animate, PARTICLE_COUNT]);
 
   useEffect(() => {
     initializeAnimation();
@@ -0,0 +1,37 @@
+'use client';
+
+import Link from 'next/link';
+import { insightsContent } from '@/lib/constants';
+import { trackCTAClick } from '@/lib/analytics';
+
+interface InlineCTAProps {
+  text?: string;
+  href?: string;
+  /** Supporting line shown above the button */
+  description?: string;
+  /** Analytics location reported with the click */
+  location?: string;
+}
+
+/**
+ * Call-to-action block for use inside insight articles
+ */
+export default function InlineCTA({
+  text = insightsContent.ctaText,
+  href = insightsContent.ctaLink,
+  description,
+  location = 'insight_article',
+}: InlineCTAProps) {
+  return (
+    <div className="p-6 bg-petrol-ink/40 rounded-2xl border border-auxo-green/20 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+      {description && <p className="text-pure-white font-medium">{description}</p>}
+      <Link
+        href={href}
+        onClick={() => trackCTAClick(text, location)}
+        className="inline-block text-center bg-auxo-green text-rich-black px-6 py-3 rounded-lg font-semibold no-underline hover:bg-opacity-90 transition-all duration-200 flex-shrink-0"
+      >
+        {text}
+      </Link>
+    </div>
+  );
+}
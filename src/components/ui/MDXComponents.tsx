@@ -0,0 +1,72 @@
+import type { ReactNode } from 'react';
+import type { MDXRemoteProps } from 'next-mdx-remote/rsc';
+import { getCaseStudyById } from '@/lib/caseStudies';
+import { insightsContent, siteContent } from '@/lib/constants';
+import { formatMetricValue } from '@/lib/format';
+import { absoluteUrl } from '@/lib/urls';
+import Callout from './Callout';
+import InlineCTA from './InlineCTA';
+import MetricTiles from './MetricTiles';
+import PullQuote from './PullQuote';
+
+type MDXComponentRegistry = NonNullable<MDXRemoteProps['components']>;
+
+/**
+ * Site components available inside insight MDX articles
+ *
+ * @param slug - Post slug, reported as the CTA analytics location
+ * @returns Component registry passed to the MDX compiler
+ */
+export function getMDXComponents(slug: string): MDXComponentRegistry {
+  return {
+    Callout,
+    MetricTiles,
+    PullQuote,
+    InlineCTA: (props: Parameters<typeof InlineCTA>[0]) => (
+      <InlineCTA location={`insight_${slug}`} {...props} />
+    ),
+  };
+}
+
+/**
+ * Plain-HTML stand-ins for the article components, used when posts are
+ * rendered into syndication feeds where site styles and scripts are unavailable
+ *
+ * @returns Component registry with the same names as getMDXComponents
+ */
+export function getFeedMDXComponents(): MDXComponentRegistry {
+  return {
+    Callout: ({ title, children }: { title?: string; children: ReactNode }) => (
+      <blockquote>
+        {title && <p><strong>{title}</strong></p>}
+        {children}
+      </blockquote>
+    ),
+    MetricTiles: ({ metrics = [], story }: Parameters<typeof MetricTiles>[0]) => {
+      const items = story !== undefined ? getCaseStudyById(story)?.metrics ?? [] : metrics;
+      return (
+        <ul>
+          {items.map((metric) => (
+            <li key={metric.label}><strong>{formatMetricValue(metric)}</strong> {metric.label}</li>
+          ))}
+        </ul>
+      );
+    },
+    PullQuote: ({ attribution, children }: Parameters<typeof PullQuote>[0]) => {
+      const { socialProof } = siteContent.engagement;
+      const source = attribution ?? (children ? undefined : socialProof.attribution);
+      return (
+        <blockquote>
+          <p>{children ?? socialProof.quote}</p>
+          {source && <p>— {source}</p>}
+        </blockquote>
+      );
+    },
+    InlineCTA: ({ text = insightsContent.ctaText, href = insightsContent.ctaLink, description }: Parameters<typeof InlineCTA>[0]) => (
+      <p>
+        {description && <>{description} </>}
+        <a href={absoluteUrl(href)}>{text}</a>
+      </p>
+    ),
+  };
+}
@@ -0,0 +1,37 @@
+import { getCaseStudyById } from '@/lib/caseStudies';
+import { formatMetricValue } from '@/lib/format';
+import type { CaseStudyMetric } from '@/types/caseStudy';
+
+interface MetricTilesProps {
+  /** Metrics to show; ignored when `story` is set */
+  metrics?: readonly CaseStudyMetric[];
+  /** Pull the metrics of a case study by id */
+  story?: number;
+}
+
+/**
+ * Metric tiles styled like the impact story key metrics
+ */
+export default function MetricTiles({ metrics = [], story }: MetricTilesProps) {
+  const items = story !== undefined ? getCaseStudyById(story)?.metrics ?? [] : metrics;
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className={`grid gap-6 ${items.length >= 3 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+      {items.map((metric) => (
+        <div
+          key={metric.label}
+          className="text-center p-6 bg-petrol-ink/30 rounded-2xl border border-auxo-green/10 hover:border-auxo-green/30 transition-all duration-300"
+        >
+          <div className="text-2xl md:text-3xl font-bold text-auxo-green mb-2">
+            {formatMetricValue(metric)}
+          </div>
+          <div className="text-limestone text-sm font-medium uppercase tracking-wider">
+            {metric.label}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useLocale, useSiteContent } from '../layout/LocaleProvider';
+import { trackCTAClick, trackSchedulingEvent } from '@/lib/analytics';
+import {
+  downloadICS,
+  getBookingEventDetails,
+  getGoogleCalendarUrl,
+  getOutlookCalendarUrl,
+} from '@/lib/calendar';
+import { getBookingManageHref } from '@/lib/bookingTokens';
+import {
+  clearQualificationDraft,
+  toQualificationAnalytics,
+  type QualificationAnswers,
+} from '@/lib/qualification';
+import {
+  availabilityRules,
+  createBookingRecord,
+  formatSlotDate,
+  formatSlotRange,
+  resolveAvailabilitySource,
+  type BookingRecord,
+  type TimeSlot,
+} from '@/lib/scheduling';
+import {
+  detectTimeZone,
+  formatTimeZoneLabel,
+  getSupportedTimeZones,
+  getTimeZoneAbbreviation,
+  isValidTimeZone,
+} from '@/lib/timezone';
+import QualificationForm from './QualificationForm';
+import SlotPicker from './SlotPicker';
+
+interface NativeSchedulerProps {
+  className?: string;
+}
+
+const TIME_ZONE_STORAGE_KEY = 'scheduling-timezone';
+
+/**
+ * First-party booking UI driven by the availability engine in lib/scheduling
+ */
+export default function NativeScheduler({ className = '' }: NativeSchedulerProps) {
+  const content = useSiteContent();
+  const locale = useLocale();
+  const { scheduling } = content;
+  const { hostTimeZone } = availabilityRules;
+  const source = useMemo(() => resolveAvailabilitySource(), []);
+
+  const [visitorTimeZone, setVisitorTimeZone] = useState<string>(hostTimeZone);
+  const [timeZones, setTimeZones] = useState<string[]>([hostTimeZone]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
+  const [isQualifying, setIsQualifying] = useState(false);
+  const [booking, setBooking] = useState<BookingRecord | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [bookingError, setBookingError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Detect the visitor's zone on the client; a previously picked zone wins
+  useEffect(() => {
+    const stored = localStorage.getItem(TIME_ZONE_STORAGE_KEY);
+    const detected = stored && isValidTimeZone(stored) ? stored : detectTimeZone(hostTimeZone);
+    setVisitorTimeZone(detected);
+    setTimeZones(getSupportedTimeZones([hostTimeZone, detected]));
+    trackSchedulingEvent('open', { availability_source: source.id, visitor_time_zone: detected });
+  }, [hostTimeZone, source]);
+
+  const changeTimeZone = (timeZone: string) => {
+    localStorage.setItem(TIME_ZONE_STORAGE_KEY, timeZone);
+    setVisitorTimeZone(timeZone);
+    setSelectedSlot(null);
+    setIsQualifying(false);
+  };
+
+  const timeZoneOptions = useMemo(
+    () => timeZones.map((zone) => ({ zone, label: formatTimeZoneLabel(zone) })),
+    [timeZones]
+  );
+
+  const selectSlot = (slot: TimeSlot | null) => {
+    setSelectedSlot(slot);
+    setBookingError(null);
+  };
+
+  const handleLoad = useCallback(() => setIsLoaded(true), []);
+
+  const confirmBooking = async (answers: QualificationAnswers) => {
+    if (!selectedSlot || isSubmitting) return;
+    setIsSubmitting(true);
+    setBookingError(null);
+
+    try {
+      const record = await source.submitBooking(createBookingRecord(selectedSlot, visitorTimeZone, answers, content));
+      setBooking(record);
+      setIsQualifying(false);
+      clearQualificationDraft();
+      trackSchedulingEvent('scheduled', {
+        booking_id: record.id,
+        slot_start: record.slot.start,
+        availability_source: source.id,
+        visitor_time_zone: record.visitorTimeZone,
+        ...toQualificationAnalytics(answers),
+      });
+    } catch (error) {
+      console.warn('Failed to confirm booking:', error);
+      setBookingError(scheduling.bookingErrorText);
+      setSelectedSlot(null);
+      setIsQualifying(false);
+      setReloadKey((key) => key + 1);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const resetBooking = () => {
+    setBooking(null);
+    setSelectedSlot(null);
+    setReloadKey((key) => key + 1);
+  };
+
+  const calendarEvent = useMemo(() => (booking ? getBookingEventDetails(booking, content) : null), [booking, content]);
+
+  return (
+    <div className={`relative ${className}`}>
+      {/* Loading State */}
+      {!isLoaded && (
+        <motion.div
+          initial={{ opacity: 1 }}
+          animate={{ opacity: isLoaded ? 0 : 1 }}
+          className="absolute inset-0 bg-petrol-ink/20 backdrop-blur-sm rounded-2xl flex items-center justify-center z-10"
+        >
+          <div className="text-center">
+            <motion.div
+              className="w-12 h-12 border-3 border-auxo-green border-t-transparent rounded-full mx-auto mb-4"
+              animate={{ rotate: 360 }}
+              transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+            />
+            <p className="text-pure-white font-medium">{scheduling.loadingText}</p>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Scheduling Interface - Custom Dark Theme */}
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: isLoaded ? 1 : 0, scale: isLoaded ? 1 : 0.95 }}
+        transition={{ duration: 0.5, delay: 0.2 }}
+        className="bg-gradient-to-br from-petrol-ink/90 to-petrol-ink/70 backdrop-blur-sm rounded-2xl border border-auxo-green/20 p-8 min-h-[600px]"
+      >
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h3 className="text-2xl font-bold text-pure-white mb-2">
+            {scheduling.title}
+          </h3>
+          <p className="text-limestone">
+            {scheduling.subtitle}
+          </p>
+          {!booking && (
+            <label className="mt-4 inline-flex flex-wrap items-center justify-center gap-2 text-sm text-limestone">
+              <span>{scheduling.timeZoneLabel}</span>
+              <select
+                value={visitorTimeZone}
+                onChange={(event) => changeTimeZone(event.target.value)}
+                className="bg-petrol-ink/60 border border-auxo-green/30 rounded-lg px-3 py-2 text-pure-white max-w-[16rem]"
+              >
+                {timeZoneOptions.map(({ zone, label }) => (
+                  <option key={zone} value={zone}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        {booking ? (
+          /* Booking Confirmation */
+          <div className="bg-petrol-ink/50 rounded-xl p-8 border border-auxo-green/30 text-center" role="status">
+            <div className="w-14 h-14 bg-auxo-green/20 rounded-full flex items-center justify-center mx-auto mb-6">
+              <svg className="w-7 h-7 text-auxo-green" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+            </div>
+            <h4 className="text-xl font-semibold text-pure-white mb-2">{scheduling.confirmationTitle}</h4>
+            <dl className="inline-grid grid-cols-[auto_auto] gap-x-4 gap-y-1 text-start mb-4">
+              <dt className="text-limestone text-sm">{scheduling.yourTimeLabel}</dt>
+              <dd className="text-pure-white">
+                <span className="text-auxo-green font-medium">{formatSlotDate(booking.slot, booking.visitorTimeZone, locale)}</span>
+                {' · '}
+                {formatSlotRange(booking.slot, booking.visitorTimeZone, locale)}{' '}
+                {getTimeZoneAbbreviation(booking.visitorTimeZone, new Date(booking.slot.start))}
+              </dd>
+              <dt className="text-limestone text-sm">{scheduling.hostTimeLabel}</dt>
+              <dd className="text-limestone">
+                {formatSlotDate(booking.slot, booking.hostTimeZone, locale)}
+                {' · '}
+                {formatSlotRange(booking.slot, booking.hostTimeZone, locale)}{' '}
+                {getTimeZoneAbbreviation(booking.hostTimeZone, new Date(booking.slot.start))}
+              </dd>
+            </dl>
+            <p className="text-limestone text-sm mb-2">{scheduling.confirmationDescription}</p>
+            <p className="text-limestone/70 text-xs mb-8">
+              {scheduling.bookingReferenceLabel}: <span className="font-mono">{booking.id}</span>
+            </p>
+
+            {calendarEvent && (
+              <div className="mb-8">
+                <p className="text-pure-white text-sm font-semibold mb-3">{scheduling.addToCalendarTitle}</p>
+                <div className="flex flex-wrap justify-center gap-3">
+                  <button
+                    onClick={() => {
+                      downloadICS(calendarEvent);
+                      trackCTAClick(scheduling.downloadIcsLabel, 'scheduling_confirmation');
+                    }}
+                    className="bg-auxo-green text-rich-black px-4 py-2 rounded-lg text-sm font-semibold hover:bg-auxo-green/90 transition-colors"
+                  >
+                    {scheduling.downloadIcsLabel}
+                  </button>
+                  <a
+                    href={getGoogleCalendarUrl(calendarEvent)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={() => trackCTAClick(scheduling.googleCalendarLabel, 'scheduling_confirmation')}
+                    className="px-4 py-2 rounded-lg text-sm font-semibold text-pure-white border border-auxo-green/30 hover:bg-auxo-green/10 transition-colors"
+                  >
+                    {scheduling.googleCalendarLabel}
+                  </a>
+                  <a
+                    href={getOutlookCalendarUrl(calendarEvent)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={() => trackCTAClick(scheduling.outlookCalendarLabel, 'scheduling_confirmation')}
+                    className="px-4 py-2 rounded-lg text-sm font-semibold text-pure-white border border-auxo-green/30 hover:bg-auxo-green/10 transition-colors"
+                  >
+                    {scheduling.outlookCalendarLabel}
+                  </a>
+                </div>
+              </div>
+            )}
+            {booking.manageToken ? (
+              <Link
+                href={getBookingManageHref(booking.manageToken)}
+                onClick={() => trackCTAClick(scheduling.manage.linkLabel, 'scheduling_confirmation')}
+                className="text-limestone hover:text-pure-white transition-colors text-sm underline"
+              >
+                {scheduling.manage.linkLabel}
+              </Link>
+            ) : (
+              <button
+                onClick={resetBooking}
+                className="text-limestone hover:text-pure-white transition-colors text-sm underline"
+              >
+                {scheduling.rebookButton}
+              </button>
+            )}
+          </div>
+        ) : (
+          <>
+            {/* Qualification Questionnaire */}
+            {isQualifying && selectedSlot && (
+              <QualificationForm
+                slotSummary={`${formatSlotDate(selectedSlot, visitorTimeZone, locale)} · ${formatSlotRange(selectedSlot, visitorTimeZone, locale)}`}
+                isSubmitting={isSubmitting}
+                onSubmit={confirmBooking}
+                onChangeSlot={() => setIsQualifying(false)}
+              />
+            )}
+
+            {/* Kept mounted while qualifying so the chosen month and date survive "Change time" */}
+            <div className={isQualifying ? 'hidden' : undefined}>
+              <SlotPicker
+                source={source}
+                timeZone={visitorTimeZone}
+                selectedSlot={selectedSlot}
+                onSelectSlot={selectSlot}
+                onLoad={handleLoad}
+                reloadKey={reloadKey}
+              >
+                {bookingError && (
+                  <p className="mt-4 text-sm text-auxo-green" role="alert">{bookingError}</p>
+                )}
+
+                {/* Continue to Questionnaire */}
+                <motion.button
+                  onClick={() => setIsQualifying(true)}
+                  disabled={!selectedSlot}
+                  className="w-full mt-8 bg-gradient-to-r from-auxo-green to-auxo-green/80 text-rich-black font-semibold py-4 px-6 rounded-xl hover:from-auxo-green/90 hover:to-auxo-green/70 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  whileHover={selectedSlot ? { scale: 1.02 } : {}}
+                  whileTap={selectedSlot ? { scale: 0.98 } : {}}
+                >
+                  {scheduling.qualification.nextButton}
+                </motion.button>
+              </SlotPicker>
+            </div>
+          </>
+        )}
+
+        {/* Meeting Details */}
+        <div className="mt-8 p-6 bg-petrol-ink/30 rounded-xl border border-auxo-green/10">
+          <div className="flex items-start gap-4">
+            <div className="w-10 h-10 bg-auxo-green/20 rounded-lg flex items-center justify-center flex-shrink-0">
+              <svg className="w-5 h-5 text-auxo-green" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+            </div>
+            <div>
+              <h5 className="text-pure-white font-semibold mb-2">{scheduling.meetingTitle}</h5>
+              <p className="text-limestone text-sm leading-relaxed">
+                {scheduling.meetingDescription}
+              </p>
+            </div>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
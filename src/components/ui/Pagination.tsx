@@ -0,0 +1,64 @@
+import Link from 'next/link';
+import { insightsContent } from '@/lib/constants';
+
+interface PaginationProps {
+  page: number;
+  totalPages: number;
+  /** Archive root with trailing slash; later pages live under `page/[n]/` */
+  basePath: string;
+}
+
+/**
+ * Builds the URL of an archive page; page 1 is the archive root
+ *
+ * @example
+ * ```ts
+ * getArchivePageHref('/insights/tag/forecasting/', 2); // "/insights/tag/forecasting/page/2/"
+ * ```
+ */
+export function getArchivePageHref(basePath: string, page: number): string {
+  return page <= 1 ? basePath : `${basePath}page/${page}/`;
+}
+
+/**
+ * Page-numbered navigation for insight archives
+ * Renders nothing when everything fits on one page
+ */
+export default function Pagination({ page, totalPages, basePath }: PaginationProps) {
+  const { pagination } = insightsContent;
+  if (totalPages <= 1) return null;
+
+  const linkClasses = 'px-4 py-2 rounded-lg border border-auxo-green/20 text-limestone hover:text-auxo-green hover:border-auxo-green/40 transition-colors';
+
+  return (
+    <nav className="flex flex-wrap items-center justify-center gap-2 mt-16" aria-label={pagination.label}>
+      {page > 1 && (
+        <Link href={getArchivePageHref(basePath, page - 1)} className={linkClasses} rel="prev">
+          ← {pagination.previous}
+        </Link>
+      )}
+      {Array.from({ length: totalPages }, (_, i) => i + 1).map((number) =>
+        number === page ? (
+          <span
+            key={number}
+            className="px-4 py-2 rounded-lg bg-auxo-green text-rich-black font-semibold"
+            aria-current="page"
+          >
+            <span className="sr-only">{pagination.page} </span>
+            {number}
+          </span>
+        ) : (
+          <Link key={number} href={getArchivePageHref(basePath, number)} className={linkClasses}>
+            <span className="sr-only">{pagination.page} </span>
+            {number}
+          </Link>
+        )
+      )}
+      {page < totalPages && (
+        <Link href={getArchivePageHref(basePath, page + 1)} className={linkClasses} rel="next">
+          {pagination.next} →
+        </Link>
+      )}
+    </nav>
+  );
+}
@@ -4,6 +4,8 @@ import { Analytics } from '@vercel/analytics/react'
 import { SpeedInsights } from '@vercel/speed-insights/next'
 import { useEffect, useRef } from 'react'
 import { trackPerformanceIssue } from '../../lib/analytics'
+import { VERCEL_ANALYTICS_ENABLED } from '../../lib/analyticsAdapters'
+import { useConsent } from '../../lib/consent'
 import { trackPerformanceMetric } from '../../lib/performance'
 
 /**
@@ -16,11 +18,14 @@ import { trackPerformanceMetric } from '../../lib/performance'
  * - Resource loading performance
  * - Navigation timing metrics
  * - Error boundary integration
- * - Vercel Analytics and Speed Insights integration
+ * - Vercel Analytics and Speed Insights integration, each loaded once its cookie category is consented to;
+ *   Vercel Analytics only when enabled for the build, see VERCEL_ANALYTICS_ENABLED
  * 
  * @returns Performance monitoring components and observers
  */
 export default function PerformanceMonitoring() {
+  const analyticsConsent = useConsent('analytics');
+  const performanceConsent = useConsent('performance');
   const observersRef = useRef<PerformanceObserver[]>([]);
   const intervalsRef = useRef<NodeJS.Timeout[]>([]);
 
@@ -265,8 +270,8 @@ export default function PerformanceMonitoring() {
 
   return (
     <>
-      <Analytics />
-      <SpeedInsights />
+      {VERCEL_ANALYTICS_ENABLED && analyticsConsent === 'granted' && <Analytics />}
+      {performanceConsent === 'granted' && <SpeedInsights />}
     </>
   );
 }
\ No newline at end of file
@@ -1,7 +1,7 @@
 'use client';
 
 import { motion, AnimatePresence } from 'framer-motion';
-import { siteContent } from '@/lib/constants';
+import { useDirection, useSiteContent } from '../layout/LocaleProvider';
 import { pillarContentVariants } from '@/lib/animations';
 
 interface PillarTabsProps {
@@ -10,23 +10,25 @@ interface PillarTabsProps {
 }
 
 export default function PillarTabs({ activePillar, onPillarChange }: PillarTabsProps) {
-  const { pillars } = siteContent.framework;
+  const { pillars } = useSiteContent().framework;
+  const { isRtl } = useDirection();
   
   const activePillarData = pillars.find(pillar => pillar.id === activePillar);
 
-  // Calculate the position for the animated line based on active pillar
+  // Calculate the position for the animated line based on active pillar,
+  // measured from the right edge when tabs run right to left
   const getLinePosition = () => {
     const pillarIndex = pillars.findIndex(p => p.id === activePillar);
     const totalPillars = pillars.length;
     const percentage = ((pillarIndex + 1) / (totalPillars + 1)) * 100;
-    return { left: `${percentage}%` };
+    return isRtl ? { right: `${percentage}%` } : { left: `${percentage}%` };
   };
 
   return (
     <div className="w-full">
       {/* Pillar Navigation */}
       <div className="relative mb-12">
-        <div className="flex justify-center space-x-8 md:space-x-16 lg:space-x-20">
+        <div className="flex justify-center gap-8 md:gap-16 lg:gap-20">
           {pillars.map((pillar) => (
             <button
               key={pillar.id}
@@ -50,7 +52,7 @@ export default function PillarTabs({ activePillar, onPillarChange }: PillarTabsP
           initial={false}
           animate={getLinePosition()}
           transition={{ duration: 0.4, ease: 'easeInOut' }}
-          style={{ width: '60px', transform: 'translateX(-50%)' }}
+          style={{ width: '60px', transform: isRtl ? 'translateX(50%)' : 'translateX(-50%)' }}
         />
       </div>
 
@@ -0,0 +1,90 @@
+import Link from 'next/link';
+import type { ReactNode } from 'react';
+import type { BlogCategory, BlogPost } from '@/types/blog';
+import { insightsContent } from '@/lib/constants';
+import Pagination from './Pagination';
+import PostCard from './PostCard';
+
+interface PostArchiveProps {
+  eyebrow: string;
+  /** Eyebrow tint, e.g. the category color */
+  accentColor?: string;
+  title: string;
+  description: string;
+  /** Posts on the current page */
+  posts: BlogPost[];
+  /** Total posts across every page, shown next to the title */
+  totalPosts: number;
+  categories: BlogCategory[];
+  page: number;
+  totalPages: number;
+  /** Archive root with trailing slash */
+  basePath: string;
+  emptyText: string;
+  /** Extra header content such as a feed link */
+  actions?: ReactNode;
+  /** Accessible name for the main landmark */
+  label: string;
+}
+
+/**
+ * Paginated post grid shared by the category and tag archives
+ */
+export default function PostArchive({
+  eyebrow,
+  accentColor,
+  title,
+  description,
+  posts,
+  totalPosts,
+  categories,
+  page,
+  totalPages,
+  basePath,
+  emptyText,
+  actions,
+  label,
+}: PostArchiveProps) {
+  const categoryBySlug = new Map(categories.map((category) => [category.slug, category]));
+  const { postCount, pagination } = insightsContent;
+
+  return (
+    <main className="pt-16 min-h-screen" role="main" aria-label={label}>
+      <section className="py-24 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-7xl mx-auto">
+          <Link href="/insights/" className="text-limestone hover:text-auxo-green transition-colors text-sm">
+            ← {insightsContent.backToInsightsText}
+          </Link>
+
+          <header className="max-w-3xl mt-8 mb-12">
+            <p
+              className={`font-semibold tracking-wide uppercase text-sm mb-4 ${accentColor ? '' : 'text-auxo-green'}`}
+              style={accentColor ? { color: accentColor } : undefined}
+            >
+              {eyebrow}
+            </p>
+            <h1 className="text-4xl md:text-5xl font-extra-bold text-pure-white mb-6">{title}</h1>
+            <p className="text-limestone text-lg">{description}</p>
+            <p className="text-limestone/70 text-sm mt-4">
+              {totalPosts} {totalPosts === 1 ? postCount.one : postCount.other}
+              {totalPages > 1 && ` · ${pagination.page} ${page} / ${totalPages}`}
+            </p>
+            {actions}
+          </header>
+
+          {posts.length === 0 ? (
+            <p className="text-limestone">{emptyText}</p>
+          ) : (
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+              {posts.map((post) => (
+                <PostCard key={post.slug} post={post} category={categoryBySlug.get(post.category)} />
+              ))}
+            </div>
+          )}
+
+          <Pagination page={page} totalPages={totalPages} basePath={basePath} />
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,47 @@
+import Link from 'next/link';
+import type { BlogCategory, BlogPost } from '@/types/blog';
+import { insightsContent } from '@/lib/constants';
+import { formatPostDate } from '@/lib/insights';
+import AuthorCard from './AuthorCard';
+import CategoryBadge from './CategoryBadge';
+
+interface PostCardProps {
+  post: BlogPost;
+  category?: BlogCategory;
+  /** Wide layout used for the lead featured post */
+  highlighted?: boolean;
+}
+
+/**
+ * Insight summary card used on listing pages
+ */
+export default function PostCard({ post, category, highlighted = false }: PostCardProps) {
+  return (
+    <article
+      className={`group relative flex flex-col h-full bg-gradient-to-br from-petrol-ink/40 to-rich-black/60 rounded-2xl border border-auxo-green/10 hover:border-auxo-green/30 transition-colors p-6 ${highlighted ? 'md:p-10' : ''}`}
+    >
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        {category && <CategoryBadge category={category} />}
+        {post.featured && (
+          <span className="text-auxo-green text-xs font-semibold uppercase tracking-wide">{insightsContent.featuredLabel}</span>
+        )}
+      </div>
+
+      <h3 className={`font-bold text-pure-white mb-3 group-hover:text-auxo-green transition-colors ${highlighted ? 'text-2xl md:text-3xl' : 'text-xl'}`}>
+        <Link href={`/insights/${post.slug}/`} className="after:absolute after:inset-0">
+          {post.title}
+        </Link>
+      </h3>
+      <p className={`text-limestone leading-relaxed mb-6 flex-1 ${highlighted ? 'text-lg' : 'text-sm'}`}>{post.excerpt}</p>
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <AuthorCard author={post.author} compact />
+        <p className="text-limestone/70 text-xs">
+          <time dateTime={post.publishedAt}>{formatPostDate(post.publishedAt)}</time>
+          {' · '}
+          {post.readTime} {insightsContent.readTimeLabel}
+        </p>
+      </div>
+    </article>
+  );
+}
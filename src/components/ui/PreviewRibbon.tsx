@@ -0,0 +1,19 @@
+import { previewContent } from '@/lib/constants';
+
+/**
+ * Corner ribbon marking preview builds, which include draft and scheduled content
+ */
+export default function PreviewRibbon() {
+  return (
+    <div
+      className="fixed top-0 right-0 z-[70] w-40 h-40 overflow-hidden pointer-events-none"
+      role="status"
+      aria-label={previewContent.description}
+      title={previewContent.description}
+    >
+      <span className="absolute top-8 -right-12 w-56 rotate-45 bg-auxo-green text-rich-black text-center text-sm font-extrabold tracking-[0.3em] py-1.5 shadow-lg">
+        {previewContent.ribbonLabel}
+      </span>
+    </div>
+  );
+}
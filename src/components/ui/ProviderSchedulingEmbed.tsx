@@ -0,0 +1,120 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { useEffect, useRef, useState } from 'react';
+import { useSiteContent } from '../layout/LocaleProvider';
+import { trackSchedulingEvent } from '@/lib/analytics';
+import { grantConsent, useConsent } from '@/lib/consent';
+import {
+  embeddedSchedulingProviders,
+  isTrustedProviderOrigin,
+  type EmbeddedSchedulingProvider,
+} from '@/lib/schedulingProviders';
+
+interface ProviderSchedulingEmbedProps {
+  providerId: EmbeddedSchedulingProvider['id'];
+  url: string;
+  className?: string;
+}
+
+/**
+ * Inline third-party scheduling widget (Calendly or Cal.com)
+ * Forwards the widget's postMessage events to scheduling analytics. The widget
+ * sets third-party cookies, so it only loads with embedded scheduling consent.
+ */
+export default function ProviderSchedulingEmbed({ providerId, url, className = '' }: ProviderSchedulingEmbedProps) {
+  const { scheduling, consent } = useSiteContent();
+  const provider = embeddedSchedulingProviders[providerId];
+  const [embedUrl, setEmbedUrl] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [height, setHeight] = useState(680);
+  const hasTrackedOpen = useRef(false);
+  const isAllowed = useConsent('scheduling') === 'granted';
+
+  // The embed URL needs the host domain, which is only known on the client
+  useEffect(() => {
+    setEmbedUrl(provider.buildEmbedUrl(url, window.location.hostname));
+  }, [provider, url]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (!isTrustedProviderOrigin(provider, url, event.origin)) return;
+
+      const message = provider.parseMessage(event.data);
+      if (!message) return;
+
+      if (message.type === 'resize') {
+        setHeight(Math.max(480, message.height));
+        return;
+      }
+
+      if (message.type === 'open') {
+        if (hasTrackedOpen.current) return;
+        hasTrackedOpen.current = true;
+      }
+
+      trackSchedulingEvent(message.type, message.details);
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [provider, url]);
+
+  return (
+    <div className={`relative ${className}`}>
+      {/* Loading State */}
+      {isAllowed && !isLoaded && (
+        <div className="absolute inset-0 bg-petrol-ink/20 backdrop-blur-sm rounded-2xl flex items-center justify-center z-10">
+          <div className="text-center">
+            <motion.div
+              className="w-12 h-12 border-3 border-auxo-green border-t-transparent rounded-full mx-auto mb-4"
+              animate={{ rotate: 360 }}
+              transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+            />
+            <p className="text-pure-white font-medium">{scheduling.loadingText}</p>
+          </div>
+        </div>
+      )}
+
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: isLoaded || !isAllowed ? 1 : 0, scale: isLoaded || !isAllowed ? 1 : 0.95 }}
+        transition={{ duration: 0.5, delay: 0.2 }}
+        className="bg-gradient-to-br from-petrol-ink/90 to-petrol-ink/70 backdrop-blur-sm rounded-2xl border border-auxo-green/20 p-8 min-h-[600px]"
+      >
+        <div className="text-center mb-8">
+          <h3 className="text-2xl font-bold text-pure-white mb-2">
+            {scheduling.title}
+          </h3>
+          <p className="text-limestone">
+            {scheduling.subtitle}
+          </p>
+        </div>
+
+        {!isAllowed && (
+          <div className="text-center max-w-md mx-auto py-16">
+            <p className="text-limestone mb-6">{consent.schedulingBlockedText}</p>
+            <button
+              type="button"
+              onClick={() => grantConsent('scheduling')}
+              className="bg-auxo-green text-rich-black px-6 py-3 rounded-lg font-semibold hover:bg-auxo-green/90 transition-colors"
+            >
+              {consent.schedulingAllowText}
+            </button>
+          </div>
+        )}
+
+        {isAllowed && embedUrl && (
+          <iframe
+            src={embedUrl}
+            title={scheduling.meetingTitle}
+            onLoad={() => setIsLoaded(true)}
+            className="w-full rounded-xl border border-auxo-green/10 bg-petrol-ink/50"
+            style={{ height }}
+            loading="lazy"
+          />
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import type { ReactNode } from 'react';
+import { siteContent } from '@/lib/constants';
+
+interface PullQuoteProps {
+  attribution?: string;
+  /** Quote text; defaults to the engagement testimonial */
+  children?: ReactNode;
+}
+
+/**
+ * Testimonial-style pull quote matching the engagement social proof block
+ */
+export default function PullQuote({ attribution, children }: PullQuoteProps) {
+  const { socialProof } = siteContent.engagement;
+  const quote = children ?? socialProof.quote;
+  const source = attribution ?? (children ? undefined : socialProof.attribution);
+
+  return (
+    <figure className="bg-gradient-to-r from-auxo-green/10 via-auxo-green/5 to-auxo-green/10 rounded-2xl p-6 border border-auxo-green/20">
+      <div className="flex items-start space-x-4">
+        <div className="w-12 h-12 bg-auxo-green/20 rounded-full flex items-center justify-center flex-shrink-0">
+          <svg className="w-6 h-6 text-auxo-green" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+            <path d="M14.017 21v-7.391c0-5.704 3.731-9.57 8.983-10.609l.995 2.151c-2.432.917-3.995 3.638-3.995 5.849h4v10h-9.983zm-14.017 0v-7.391c0-5.704 3.748-9.57 9-10.609l.996 2.151c-2.433.917-3.996 3.638-3.996 5.849h4v10h-10z"/>
+          </svg>
+        </div>
+        <div>
+          <blockquote className="text-pure-white italic mb-3 leading-relaxed [&>p]:m-0">
+            {quote}
+          </blockquote>
+          {source && (
+            <figcaption className="text-auxo-green font-medium">
+              — {source}
+            </figcaption>
+          )}
+        </div>
+      </div>
+    </figure>
+  );
+}
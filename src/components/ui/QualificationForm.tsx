@@ -0,0 +1,191 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { useEffect, useMemo, useState } from 'react';
+import { useSiteContent } from '../layout/LocaleProvider';
+import {
+  emptyQualificationAnswers,
+  getQualificationSteps,
+  loadQualificationDraft,
+  saveQualificationDraft,
+  validateQualificationStep,
+  type QualificationAnswers,
+} from '@/lib/qualification';
+
+interface QualificationFormProps {
+  /** Short description of the chosen slot shown above the questions */
+  slotSummary: string;
+  isSubmitting: boolean;
+  onSubmit: (answers: QualificationAnswers) => void;
+  onChangeSlot: () => void;
+  className?: string;
+}
+
+/**
+ * Multi-step intake shown between slot selection and booking confirmation
+ * Progress is saved to localStorage so a reload resumes where the visitor left off
+ */
+export default function QualificationForm({
+  slotSummary,
+  isSubmitting,
+  onSubmit,
+  onChangeSlot,
+  className = '',
+}: QualificationFormProps) {
+  const content = useSiteContent();
+  const { scheduling } = content;
+  const { qualification } = scheduling;
+  const qualificationSteps = useMemo(() => getQualificationSteps(content), [content]);
+
+  const [answers, setAnswers] = useState<QualificationAnswers>(emptyQualificationAnswers);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isRestored, setIsRestored] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const draft = loadQualificationDraft();
+    setAnswers(draft.answers);
+    setStepIndex(draft.stepIndex);
+    setIsRestored(true);
+  }, []);
+
+  useEffect(() => {
+    if (isRestored) saveQualificationDraft({ answers, stepIndex });
+  }, [answers, stepIndex, isRestored]);
+
+  const step = qualificationSteps[stepIndex];
+  const isLastStep = stepIndex === qualificationSteps.length - 1;
+  const progress = ((stepIndex + 1) / qualificationSteps.length) * 100;
+  const value = answers[step.id];
+
+  const toggleOption = (option: string) => {
+    setError(null);
+    setAnswers((current) => {
+      const previous = current[step.id];
+      if (!Array.isArray(previous)) return { ...current, [step.id]: option };
+
+      const selected = previous.includes(option)
+        ? previous.filter((item) => item !== option)
+        : [...previous, option];
+      return { ...current, [step.id]: selected };
+    });
+  };
+
+  const goNext = () => {
+    const stepError = validateQualificationStep(step, answers);
+    if (stepError) {
+      // Reported in the page locale; validation itself works on default-locale values
+      setError(qualification.requiredError);
+      return;
+    }
+
+    if (isLastStep) {
+      onSubmit(answers);
+    } else {
+      setStepIndex(stepIndex + 1);
+    }
+  };
+
+  const goBack = () => {
+    setError(null);
+    if (stepIndex === 0) {
+      onChangeSlot();
+    } else {
+      setStepIndex(stepIndex - 1);
+    }
+  };
+
+  return (
+    <div className={`bg-petrol-ink/50 rounded-xl p-6 md:p-8 border border-auxo-green/10 ${className}`}>
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+        <div>
+          <h4 className="text-lg font-semibold text-pure-white">{qualification.title}</h4>
+          <p className="text-limestone text-sm mt-1">{qualification.description}</p>
+        </div>
+        <button
+          onClick={onChangeSlot}
+          className="text-start text-sm text-limestone hover:text-pure-white transition-colors"
+        >
+          <span className="block text-auxo-green font-medium">{slotSummary}</span>
+          <span className="underline">{qualification.changeSlotButton}</span>
+        </button>
+      </div>
+
+      {/* Progress */}
+      <div className="mb-6">
+        <p className="text-xs text-limestone mb-2" aria-live="polite">
+          {qualification.progressLabel} {stepIndex + 1} / {qualificationSteps.length}
+        </p>
+        <div
+          className="h-1.5 bg-petrol-ink/60 rounded-full overflow-hidden"
+          role="progressbar"
+          aria-valuemin={1}
+          aria-valuemax={qualificationSteps.length}
+          aria-valuenow={stepIndex + 1}
+        >
+          <motion.div
+            className="h-full bg-auxo-green rounded-full"
+            initial={false}
+            animate={{ width: `${progress}%` }}
+            transition={{ duration: 0.3 }}
+          />
+        </div>
+      </div>
+
+      <fieldset>
+        <legend className="text-pure-white font-medium mb-1">{step.question}</legend>
+        {step.hint && <p className="text-limestone/70 text-xs mb-4">{step.hint}</p>}
+
+        <div className={`grid gap-3 ${step.hint ? '' : 'mt-4'} ${step.options.length > 4 ? 'sm:grid-cols-2' : ''}`}>
+          {step.options.map((option) => {
+            const isSelected = Array.isArray(value) ? value.includes(option.value) : value === option.value;
+            return (
+              <button
+                key={option.value}
+                onClick={() => toggleOption(option.value)}
+                className={`
+                  w-full p-4 text-start rounded-xl border transition-all duration-200
+                  ${isSelected ?
+                    'bg-auxo-green/20 border-auxo-green text-auxo-green font-medium' :
+                    'bg-petrol-ink/30 border-auxo-green/20 text-pure-white hover:bg-auxo-green/10 hover:border-auxo-green/40'
+                  }
+                `}
+                aria-pressed={isSelected}
+              >
+                {option.label ?? option.value}
+                {option.description && (
+                  <span className="block text-xs text-limestone/70 font-normal mt-1">{option.description}</span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </fieldset>
+
+      {error && (
+        <p className="mt-4 text-sm text-auxo-green" role="alert">{error}</p>
+      )}
+
+      <div className="flex gap-3 mt-8">
+        <button
+          onClick={goBack}
+          disabled={isSubmitting}
+          className="px-6 py-4 rounded-xl text-pure-white border border-auxo-green/30 hover:bg-auxo-green/10 transition-colors disabled:opacity-50"
+        >
+          {qualification.backButton}
+        </button>
+        <motion.button
+          onClick={goNext}
+          disabled={isSubmitting}
+          className="flex-1 bg-gradient-to-r from-auxo-green to-auxo-green/80 text-rich-black font-semibold py-4 px-6 rounded-xl hover:from-auxo-green/90 hover:to-auxo-green/70 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+        >
+          {isLastStep
+            ? isSubmitting ? scheduling.confirmingText : scheduling.confirmButton
+            : qualification.nextButton}
+        </motion.button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import type { BlogCategory, BlogPost } from '@/types/blog';
+import { insightsContent } from '@/lib/constants';
+import PostCard from './PostCard';
+
+interface RelatedPostsProps {
+  posts: BlogPost[];
+  categories: BlogCategory[];
+}
+
+/**
+ * "Continue reading" block rendered after an insight
+ * Posts come precomputed from lib/relatedPosts
+ */
+export default function RelatedPosts({ posts, categories }: RelatedPostsProps) {
+  if (posts.length === 0) return null;
+  const categoryBySlug = new Map(categories.map((category) => [category.slug, category]));
+
+  return (
+    <section className="pb-24 px-4 sm:px-6 lg:px-8" aria-labelledby="related-insights-title">
+      <div className="max-w-7xl mx-auto border-t border-auxo-green/10 pt-16">
+        <h2 id="related-insights-title" className="text-2xl md:text-3xl font-bold text-pure-white mb-8">
+          {insightsContent.relatedTitle}
+        </h2>
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+          {posts.map((post) => (
+            <PostCard key={post.slug} post={post} category={categoryBySlug.get(post.category)} />
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+}
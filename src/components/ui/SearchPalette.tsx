@@ -0,0 +1,210 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Search, X } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from 'react';
+import { loadSearchIndex, querySearchIndex, type SearchIndex, type SnippetSegment } from '@/lib/search';
+import { trackSearch, trackSearchResultClick } from '@/lib/analytics';
+import { useLocale, useSiteContent } from '../layout/LocaleProvider';
+
+interface SearchPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Query to start with, e.g. from the `q` URL parameter */
+  initialQuery?: string;
+}
+
+function Highlighted({ segments }: { segments: SnippetSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="bg-auxo-green/25 text-auxo-green rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * Cmd/Ctrl+K search dialog over the static site index
+ */
+export default function SearchPalette({ isOpen, onClose, initialQuery = '' }: SearchPaletteProps) {
+  const router = useRouter();
+  const { search } = useSiteContent();
+  const locale = useLocale();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [query, setQuery] = useState(initialQuery);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery(initialQuery);
+    setActiveIndex(0);
+    inputRef.current?.focus();
+
+    let cancelled = false;
+    loadSearchIndex(locale)
+      .then((result) => {
+        if (!cancelled) {
+          setIndex(result);
+          setLoadError(false);
+        }
+      })
+      .catch((error) => {
+        console.warn('Failed to load search index:', error);
+        if (!cancelled) setLoadError(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, initialQuery, locale]);
+
+  const results = useMemo(() => (index ? querySearchIndex(index, query) : []), [index, query]);
+
+  // Report the search once typing settles
+  useEffect(() => {
+    const term = query.trim();
+    if (!index || !term) return;
+    const timer = window.setTimeout(() => trackSearch(term, results.length), 800);
+    return () => window.clearTimeout(timer);
+  }, [index, query, results.length]);
+
+  const selectResult = (position: number) => {
+    const result = results[position];
+    if (!result) return;
+    trackSearchResultClick(query.trim(), result.document.href, position + 1);
+    onClose();
+    router.push(result.document.href);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      onClose();
+    } else if (event.key === 'ArrowDown' && results.length > 0) {
+      event.preventDefault();
+      setActiveIndex((current) => (current + 1) % results.length);
+    } else if (event.key === 'ArrowUp' && results.length > 0) {
+      event.preventDefault();
+      setActiveIndex((current) => (current - 1 + results.length) % results.length);
+    } else if (event.key === 'Enter' && results.length > 0) {
+      event.preventDefault();
+      selectResult(activeIndex);
+    }
+  };
+
+  const status = loadError
+    ? search.loadErrorText
+    : !index
+      ? search.loadingText
+      : !query.trim()
+        ? search.emptyPrompt
+        : results.length === 0
+          ? search.noResultsText
+          : null;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          className="fixed inset-0 z-[60] bg-dark-bg/80 backdrop-blur-sm flex items-start justify-center px-4 pt-24"
+          onMouseDown={(event) => {
+            if (event.target === event.currentTarget) onClose();
+          }}
+        >
+          <motion.div
+            role="dialog"
+            aria-modal="true"
+            aria-label={search.dialogLabel}
+            initial={{ y: -16, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            exit={{ y: -16, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="w-full max-w-2xl bg-petrol-ink rounded-2xl border border-auxo-green/20 shadow-2xl overflow-hidden"
+            onKeyDown={handleKeyDown}
+          >
+            <div className="flex items-center gap-3 px-5 border-b border-auxo-green/10">
+              <Search className="w-5 h-5 text-limestone shrink-0" aria-hidden="true" />
+              <input
+                ref={inputRef}
+                type="search"
+                value={query}
+                onChange={(event) => {
+                  setQuery(event.target.value);
+                  setActiveIndex(0);
+                }}
+                placeholder={search.placeholder}
+                className="flex-1 bg-transparent py-4 text-pure-white placeholder:text-limestone/60 focus:outline-none"
+                role="combobox"
+                aria-expanded={results.length > 0}
+                aria-controls="search-results"
+                aria-activedescendant={results[activeIndex] ? `search-result-${activeIndex}` : undefined}
+                aria-autocomplete="list"
+              />
+              <button
+                onClick={onClose}
+                className="p-1 rounded-lg text-limestone hover:text-pure-white focus:outline-none focus:ring-2 focus:ring-auxo-green focus:ring-opacity-50"
+                aria-label={search.closeLabel}
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {status ? (
+              <p className="px-5 py-8 text-center text-limestone text-sm" role="status">
+                {status}
+              </p>
+            ) : (
+              <ul id="search-results" role="listbox" className="max-h-[60vh] overflow-y-auto py-2">
+                {results.map((result, position) => (
+                  <li
+                    key={result.document.id}
+                    id={`search-result-${position}`}
+                    role="option"
+                    aria-selected={position === activeIndex}
+                  >
+                    <Link
+                      href={result.document.href}
+                      onClick={() => {
+                        trackSearchResultClick(query.trim(), result.document.href, position + 1);
+                        onClose();
+                      }}
+                      onMouseEnter={() => setActiveIndex(position)}
+                      className={`block px-5 py-3 transition-colors ${position === activeIndex ? 'bg-auxo-green/10' : ''}`}
+                      tabIndex={-1}
+                    >
+                      <span className="flex items-center gap-2 text-xs uppercase tracking-wide text-limestone/70 mb-1">
+                        <span className="text-auxo-green font-semibold">{search.typeLabels[result.document.type]}</span>
+                        {result.document.context && <span>· {result.document.context}</span>}
+                      </span>
+                      <span className="block text-pure-white font-semibold">
+                        <Highlighted segments={result.title} />
+                      </span>
+                      <span className="block text-limestone text-sm mt-1 leading-relaxed">
+                        <Highlighted segments={result.snippet} />
+                      </span>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,274 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import { useLocale, useSiteContent } from '../layout/LocaleProvider';
+import { formatDate } from '@/lib/format';
+import {
+  availabilityRules,
+  computeAvailableSlots,
+  formatSlotRange,
+  getMonthRange,
+  groupSlotsByDate,
+  type AvailabilitySnapshot,
+  type AvailabilitySource,
+  type TimeSlot,
+} from '@/lib/scheduling';
+import type { Locale } from '@/lib/i18n';
+import { formatDateKey, getTimeZoneAbbreviation, getZonedDateTime } from '@/lib/timezone';
+
+interface SlotPickerProps {
+  source: AvailabilitySource;
+  /** Zone the calendar and slots are rendered in */
+  timeZone: string;
+  selectedSlot: TimeSlot | null;
+  onSelectSlot: (slot: TimeSlot | null) => void;
+  /** Called once the first availability request settles */
+  onLoad?: () => void;
+  /** Increment to refetch availability for the visible month */
+  reloadKey?: number;
+  /** Rendered under the slot list, typically errors and the primary action */
+  children?: ReactNode;
+}
+
+interface CalendarMonth {
+  year: number;
+  /** Month of the year (1-12) */
+  month: number;
+}
+
+const shiftMonth = ({ year, month }: CalendarMonth, delta: number): CalendarMonth => {
+  const index = year * 12 + (month - 1) + delta;
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+};
+
+const monthIndex = ({ year, month }: CalendarMonth) => year * 12 + month;
+
+// 1 January 2023 was a Sunday, so day i of that week is weekday i
+const weekdayInitials = (locale: Locale) =>
+  Array.from({ length: 7 }, (_, i) => formatDate(new Date(Date.UTC(2023, 0, 1 + i)), locale, { weekday: 'narrow' }));
+
+/**
+ * Month calendar and slot list driven by the availability engine in lib/scheduling
+ */
+export default function SlotPicker({
+  source,
+  timeZone,
+  selectedSlot,
+  onSelectSlot,
+  onLoad,
+  reloadKey = 0,
+  children,
+}: SlotPickerProps) {
+  const { scheduling } = useSiteContent();
+  const locale = useLocale();
+  const { hostTimeZone } = availabilityRules;
+
+  const [loadError, setLoadError] = useState(false);
+  const [bounds, setBounds] = useState<{ first: CalendarMonth; last: CalendarMonth } | null>(null);
+  const [viewMonth, setViewMonth] = useState<CalendarMonth | null>(null);
+  const [snapshot, setSnapshot] = useState<AvailabilitySnapshot | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  // Resolve the bookable month window in the rendered zone
+  useEffect(() => {
+    const now = new Date();
+    const today = getZonedDateTime(now, timeZone);
+    const horizon = getZonedDateTime(
+      new Date(now.getTime() + availabilityRules.bookingHorizonDays * 24 * 60 * 60 * 1000),
+      timeZone
+    );
+    const first = { year: today.year, month: today.month };
+    setBounds({ first, last: { year: horizon.year, month: horizon.month } });
+    setViewMonth(first);
+    setSelectedDate(null);
+  }, [timeZone]);
+
+  const monthRange = useMemo(
+    () => (viewMonth ? getMonthRange(viewMonth.year, viewMonth.month, timeZone) : null),
+    [viewMonth, timeZone]
+  );
+
+  useEffect(() => {
+    if (!monthRange) return;
+    let cancelled = false;
+
+    source
+      .load(monthRange)
+      .then((result) => {
+        if (cancelled) return;
+        setSnapshot(result);
+        setLoadError(false);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.warn('Failed to load availability:', error);
+        setSnapshot(null);
+        setLoadError(true);
+      })
+      .finally(() => {
+        if (!cancelled) onLoad?.();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source, monthRange, reloadKey, onLoad]);
+
+  const slotsByDate = useMemo(() => {
+    if (!snapshot || !monthRange) return new Map<string, TimeSlot[]>();
+    return groupSlotsByDate(computeAvailableSlots(availabilityRules, snapshot, monthRange), timeZone);
+  }, [snapshot, monthRange, timeZone]);
+
+  const selectedSlots = selectedDate ? slotsByDate.get(selectedDate) ?? [] : [];
+  const isHostZone = timeZone === hostTimeZone;
+
+  const changeMonth = (delta: number) => {
+    if (!viewMonth) return;
+    setViewMonth(shiftMonth(viewMonth, delta));
+    setSelectedDate(null);
+    onSelectSlot(null);
+  };
+
+  const selectDate = (dateKey: string) => {
+    setSelectedDate(dateKey);
+    onSelectSlot(null);
+  };
+
+  const leadingBlanks = viewMonth ? new Date(Date.UTC(viewMonth.year, viewMonth.month - 1, 1)).getUTCDay() : 0;
+  const daysInMonth = viewMonth ? new Date(Date.UTC(viewMonth.year, viewMonth.month, 0)).getUTCDate() : 0;
+  const canGoBack = Boolean(viewMonth && bounds && monthIndex(viewMonth) > monthIndex(bounds.first));
+  const canGoForward = Boolean(viewMonth && bounds && monthIndex(viewMonth) < monthIndex(bounds.last));
+
+  return (
+    <div className="grid md:grid-cols-2 gap-8">
+      {/* Calendar */}
+      <div className="bg-petrol-ink/50 rounded-xl p-6 border border-auxo-green/10">
+        <div className="flex items-center justify-between mb-6">
+          <h4 className="text-lg font-semibold text-pure-white" aria-live="polite">
+            {viewMonth
+              ? formatDate(new Date(Date.UTC(viewMonth.year, viewMonth.month - 1, 1)), locale, { month: 'long', year: 'numeric' })
+              : ' '}
+          </h4>
+          <div className="flex gap-2">
+            <button
+              onClick={() => changeMonth(-1)}
+              disabled={!canGoBack}
+              className="p-2 hover:bg-auxo-green/20 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+              aria-label="Previous month"
+            >
+              <svg className="w-4 h-4 text-auxo-green rtl:rotate-180" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <button
+              onClick={() => changeMonth(1)}
+              disabled={!canGoForward}
+              className="p-2 hover:bg-auxo-green/20 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+              aria-label="Next month"
+            >
+              <svg className="w-4 h-4 text-auxo-green rtl:rotate-180" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Calendar Grid */}
+        <div className="grid grid-cols-7 gap-1 mb-4">
+          {weekdayInitials(locale).map((day, index) => (
+            <div key={`${day}-${index}`} className="text-center text-limestone text-sm font-medium p-2">
+              {day}
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-7 gap-1">
+          {Array.from({ length: leadingBlanks }, (_, i) => (
+            <div key={`blank-${i}`} className="p-2" aria-hidden="true" />
+          ))}
+          {viewMonth && Array.from({ length: daysInMonth }, (_, i) => {
+            const day = i + 1;
+            const dateKey = formatDateKey(viewMonth.year, viewMonth.month, day);
+            const isAvailable = slotsByDate.has(dateKey);
+            const isSelected = dateKey === selectedDate;
+
+            return (
+              <motion.button
+                key={dateKey}
+                onClick={() => selectDate(dateKey)}
+                className={`
+                  p-2 text-sm rounded-lg transition-all duration-200
+                  ${isSelected ? 'bg-auxo-green text-rich-black font-semibold' :
+                    isAvailable ? 'text-pure-white hover:bg-auxo-green/20 hover:text-auxo-green' :
+                    'text-limestone/50 cursor-not-allowed'
+                  }
+                `}
+                whileHover={isAvailable ? { scale: 1.1 } : {}}
+                whileTap={isAvailable ? { scale: 0.95 } : {}}
+                disabled={!isAvailable}
+                aria-pressed={isSelected}
+              >
+                {day}
+              </motion.button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Time Slots */}
+      <div className="bg-petrol-ink/50 rounded-xl p-6 border border-auxo-green/10">
+        <h4 className="text-lg font-semibold text-pure-white mb-6">{scheduling.availableTimesTitle}</h4>
+
+        {loadError ? (
+          <p className="text-limestone text-sm" role="alert">{scheduling.loadErrorText}</p>
+        ) : !selectedDate ? (
+          <p className="text-limestone text-sm">{scheduling.selectDatePrompt}</p>
+        ) : selectedSlots.length === 0 ? (
+          <p className="text-limestone text-sm">{scheduling.noSlotsText}</p>
+        ) : (
+          <div className="space-y-3 max-h-80 overflow-y-auto pe-1">
+            {selectedSlots.map((slot) => {
+              const isSelected = slot.start === selectedSlot?.start;
+              return (
+                <motion.button
+                  key={slot.start}
+                  onClick={() => onSelectSlot(slot)}
+                  className={`
+                    w-full p-4 text-start rounded-xl border transition-all duration-200
+                    ${isSelected ?
+                      'bg-auxo-green/20 border-auxo-green text-auxo-green font-medium' :
+                      'bg-petrol-ink/30 border-auxo-green/20 text-pure-white hover:bg-auxo-green/10 hover:border-auxo-green/40'
+                    }
+                  `}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  aria-pressed={isSelected}
+                >
+                  <div className="flex items-center justify-between">
+                    <span>
+                      {formatSlotRange(slot, timeZone, locale)}
+                      {!isHostZone && (
+                        <span className="block text-xs text-limestone/70 font-normal">
+                          {formatSlotRange(slot, hostTimeZone, locale)}{' '}
+                          {getTimeZoneAbbreviation(hostTimeZone, new Date(slot.start))}
+                        </span>
+                      )}
+                    </span>
+                    {isSelected && (
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                      </svg>
+                    )}
+                  </div>
+                </motion.button>
+              );
+            })}
+          </div>
+        )}
+
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { ArrowRight, RefreshCw } from 'lucide-react';
+import { lazy, Suspense, useEffect, useState } from 'react';
+import { heroVariants, heroTextVariants, heroHeadlineVariants } from '@/lib/animations';
+import { trackBrokenPath } from '@/lib/analytics';
+import { STATIC_ROUTES, suggestRoutes, type RouteSuggestion } from '@/lib/routeSuggestions';
+import { loadSearchIndex, type SearchDocument } from '@/lib/search';
+import { stripBasePath, withBasePath } from '@/lib/urls';
+import { useLocale } from '../layout/LocaleProvider';
+
+// Same backdrop as the hero, loaded after the page content
+const HeroScatterAnimation = lazy(() => import('./HeroScatterAnimation'));
+
+/**
+ * Copy for a status page, see notFoundContent and the errorPage site content
+ */
+export interface StatusPageContent {
+  headline: string;
+  subheadline: string;
+  ctaText: string;
+  ctaLink: string;
+  suggestionsTitle: string;
+  retryText?: string;
+}
+
+interface StatusPageProps {
+  statusCode: 404 | 500;
+  content: StatusPageContent;
+  /** Shows the retry button, e.g. the `reset` of an error boundary */
+  onRetry?: () => void;
+}
+
+/**
+ * Branded 404 and error page
+ *
+ * Features:
+ * - Hero scatter animation in lightweight mode as the backdrop
+ * - Suggests up to three pages matching the requested path, from the search index
+ * - Reports the path, status code and referrer through analytics
+ *
+ * @param props - Status code, copy and optional retry handler
+ * @returns Full-height status page
+ */
+export default function StatusPage({ statusCode, content, onRetry }: StatusPageProps) {
+  const locale = useLocale();
+  const [suggestions, setSuggestions] = useState<RouteSuggestion[]>([]);
+
+  useEffect(() => {
+    const path = stripBasePath(window.location.pathname);
+    trackBrokenPath(path, statusCode);
+
+    let cancelled = false;
+    loadSearchIndex(locale)
+      .then((index): readonly SearchDocument[] => index.documents)
+      .catch((error) => {
+        console.warn('Failed to load search index:', error);
+        return [];
+      })
+      .then((documents) => {
+        if (cancelled) return;
+        const routes = [...STATIC_ROUTES, ...documents].filter((route) => route.href !== path);
+        setSuggestions(suggestRoutes(path, routes));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [statusCode, locale]);
+
+  return (
+    <section className="relative min-h-screen flex items-center justify-center overflow-hidden pt-16">
+      <Suspense
+        fallback={
+          <div
+            className="absolute inset-0 bg-gradient-to-br from-rich-black via-graphite to-dark-bg"
+            aria-hidden="true"
+          />
+        }
+      >
+        <HeroScatterAnimation lightweight />
+      </Suspense>
+
+      <motion.div
+        className="relative z-10 text-center px-4 py-24 max-w-3xl mx-auto"
+        variants={heroVariants}
+        initial="hidden"
+        animate="visible"
+      >
+        <motion.p
+          className="text-auxo-green text-6xl md:text-8xl font-extrabold tracking-tight mb-6"
+          variants={heroTextVariants}
+          aria-hidden="true"
+        >
+          {statusCode}
+        </motion.p>
+
+        <motion.h1
+          className="text-3xl md:text-5xl font-extrabold text-pure-white uppercase tracking-tight mb-6 leading-tight"
+          variants={heroHeadlineVariants}
+        >
+          {content.headline}
+        </motion.h1>
+
+        <motion.p
+          className="text-lg md:text-xl text-limestone leading-relaxed mb-10 font-light"
+          variants={heroTextVariants}
+        >
+          {content.subheadline}
+        </motion.p>
+
+        <motion.div className="flex flex-col sm:flex-row items-center justify-center gap-4" variants={heroTextVariants}>
+          {onRetry && content.retryText && (
+            <button
+              type="button"
+              onClick={onRetry}
+              className="inline-flex items-center gap-2 border border-auxo-green text-auxo-green px-6 py-3 rounded-lg font-semibold hover:bg-auxo-green/10 transition-colors focus:outline-none focus:ring-2 focus:ring-auxo-green"
+            >
+              <RefreshCw className="w-4 h-4" aria-hidden="true" />
+              {content.retryText}
+            </button>
+          )}
+          <a
+            href={withBasePath(content.ctaLink)}
+            className="inline-flex items-center gap-2 bg-auxo-green text-rich-black px-6 py-3 rounded-lg font-semibold hover:bg-auxo-green/90 transition-colors focus:outline-none focus:ring-2 focus:ring-auxo-green"
+          >
+            {content.ctaText}
+            <ArrowRight className="w-4 h-4 rtl:rotate-180" aria-hidden="true" />
+          </a>
+        </motion.div>
+
+        {suggestions.length > 0 && (
+          <nav
+            className="mt-12 p-6 bg-petrol-ink/40 rounded-2xl border border-auxo-green/10 text-start"
+            aria-labelledby="status-suggestions"
+          >
+            <h2 id="status-suggestions" className="text-pure-white font-semibold mb-4">
+              {content.suggestionsTitle}
+            </h2>
+            <ul className="space-y-2">
+              {suggestions.map((suggestion) => (
+                <li key={suggestion.href}>
+                  <a
+                    href={withBasePath(suggestion.href)}
+                    className="group flex items-center justify-between gap-4 text-limestone hover:text-auxo-green transition-colors"
+                  >
+                    <span>{suggestion.title}</span>
+                    <ArrowRight
+                      className="w-4 h-4 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity rtl:rotate-180"
+                      aria-hidden="true"
+                    />
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </nav>
+        )}
+      </motion.div>
+    </section>
+  );
+}
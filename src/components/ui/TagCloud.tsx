@@ -0,0 +1,67 @@
+import Link from 'next/link';
+import type { BlogTag } from '@/types/blog';
+import { insightsContent } from '@/lib/constants';
+import { DEFAULT_LOCALE, type Locale } from '@/lib/i18n';
+import { formatNumber } from '@/lib/utils';
+
+interface TagCloudProps {
+  tags: BlogTag[];
+  /** Heading above the cloud; pass null to omit it */
+  title?: string | null;
+  /** Post count wording in each tag's tooltip */
+  countLabel?: { readonly one: string; readonly other: string };
+  /** Locale the post counts are written in */
+  locale?: Locale;
+  /** Show only the most used tags */
+  limit?: number;
+  className?: string;
+}
+
+const SIZE_CLASSES = ['text-xs', 'text-sm', 'text-base', 'text-lg'];
+
+/**
+ * Tag links sized by how many posts carry each tag
+ * Takes precomputed tags so it can render inside client components such as the Footer
+ *
+ * @example
+ * ```tsx
+ * <TagCloud tags={getAllTags()} limit={12} />
+ * ```
+ */
+export default function TagCloud({
+  tags,
+  title = insightsContent.tagsTitle,
+  countLabel = insightsContent.postCount,
+  locale = DEFAULT_LOCALE,
+  limit,
+  className = '',
+}: TagCloudProps) {
+  const visible = (limit ? tags.slice(0, limit) : tags).slice().sort((a, b) => a.name.localeCompare(b.name));
+  if (visible.length === 0) return null;
+
+  const counts = visible.map((tag) => tag.count);
+  const min = Math.min(...counts);
+  const spread = Math.max(...counts) - min;
+
+  return (
+    <div className={className}>
+      {title && <h2 className="text-pure-white font-semibold mb-4">{title}</h2>}
+      <ul className="flex flex-wrap items-baseline justify-center gap-x-4 gap-y-2">
+        {visible.map((tag) => {
+          const weight = spread === 0 ? 0 : Math.round(((tag.count - min) / spread) * (SIZE_CLASSES.length - 1));
+          return (
+            <li key={tag.slug}>
+              <Link
+                href={`/insights/tag/${tag.slug}/`}
+                className={`${SIZE_CLASSES[weight]} text-limestone hover:text-auxo-green transition-colors`}
+                title={`${formatNumber(tag.count, 1, locale)} ${tag.count === 1 ? countLabel.one : countLabel.other}`}
+              >
+                #{tag.name}
+              </Link>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -1,46 +1,79 @@
 // Analytics utilities and event tracking
+// Events and their parameters are declared in lib/analyticsEvents. They fan out
+// to the configured adapters (lib/analyticsAdapters), each waiting for consent
+// to its own and the event's cookie category (lib/consent)
 
-// Define analytics events
+import { getAnalyticsAdapters } from './analyticsAdapters'
+import {
+  analyticsEventCatalog,
+  validateAnalyticsEvent,
+  type AnalyticsEventName,
+  type AnalyticsEventParameters,
+} from './analyticsEvents'
+import { whenConsented } from './consent'
+
+// Every scheduling event takes the same optional parameters
+export type SchedulingEventParameters = AnalyticsEventParameters<'meeting_scheduled'>
+
+// Constant names for the events in the catalog
 export const analyticsEvents = {
   // Page events
   PAGE_VIEW: 'page_view',
+  BROKEN_PATH: 'broken_path',
   
   // Engagement events
   CTA_CLICK: 'cta_click',
   SECTION_VIEW: 'section_view',
   PILLAR_TAB_CLICK: 'pillar_tab_click',
   IMPACT_CARD_HOVER: 'impact_card_hover',
+  SEARCH: 'search',
+  SEARCH_RESULT_CLICK: 'search_result_click',
   
   // Conversion events
   SCHEDULE_CLICK: 'schedule_click',
   CALENDAR_OPEN: 'calendar_open',
   MEETING_SCHEDULED: 'meeting_scheduled',
+  MEETING_RESCHEDULED: 'meeting_rescheduled',
+  MEETING_CANCELLED: 'meeting_cancelled',
   
   // Performance events
   PERFORMANCE_ISSUE: 'performance_issue',
+  PERFORMANCE_METRIC: 'performance_metric',
   ERROR_OCCURRED: 'error_occurred',
+  EXCEPTION: 'exception',
   
   // Cookie consent events
   COOKIE_CONSENT_SHOWN: 'cookie_consent_shown',
   COOKIE_CONSENT_ACCEPTED: 'cookie_consent_accepted',
-  COOKIE_CONSENT_DECLINED: 'cookie_consent_declined',
-} as const
+} as const satisfies Record<string, AnalyticsEventName>
+
+// Events whose parameters are all optional can be tracked without any
+type TrackEventArguments<Name extends AnalyticsEventName> =
+  Record<string, never> extends AnalyticsEventParameters<Name>
+    ? [parameters?: AnalyticsEventParameters<Name>]
+    : [parameters: AnalyticsEventParameters<Name>]
 
 // Track custom events
-export const trackEvent = (eventName: string, parameters?: Record<string, unknown>) => {
+// The single dispatcher: every adapter gets the event once consent allows,
+// stamped with the time it happened
+export const trackEvent = <Name extends AnalyticsEventName>(
+  eventName: Name,
+  ...[parameters = {} as AnalyticsEventParameters<Name>]: TrackEventArguments<Name>
+) => {
   if (typeof window === 'undefined') return
   
-  // Google Analytics 4
-  if (window.gtag) {
-    window.gtag('event', eventName, {
-      ...parameters,
-      timestamp: Date.now(),
-    })
+  // Catch calls the compiler cannot check, e.g. spreads of loosely typed data
+  if (process.env.NODE_ENV === 'development') {
+    const problems = validateAnalyticsEvent(eventName, parameters)
+    if (problems.length > 0) console.warn(`Invalid analytics event\n${problems.join('\n')}`)
   }
   
-  // Console log in development
-  if (process.env.NODE_ENV === 'development') {
-    console.log('Analytics Event:', eventName, parameters)
+  const { category } = analyticsEventCatalog[eventName]
+  const url = window.location.href
+  for (const adapter of getAnalyticsAdapters()) {
+    whenConsented([category, adapter.category], (timestamp) => {
+      adapter.send({ name: eventName, parameters, category, timestamp, url })
+    })
   }
 }
 
@@ -52,6 +85,15 @@ export const trackPageView = (url: string, title: string) => {
   })
 }
 
+// Track visits to missing or failing pages, with the referrer that linked there
+export const trackBrokenPath = (path: string, statusCode: 404 | 500) => {
+  trackEvent(analyticsEvents.BROKEN_PATH, {
+    page_path: path,
+    status_code: statusCode,
+    referrer: typeof document === 'undefined' ? undefined : document.referrer || undefined,
+  })
+}
+
 // Track CTA clicks
 export const trackCTAClick = (ctaText: string, location: string) => {
   trackEvent(analyticsEvents.CTA_CLICK, {
@@ -84,12 +126,34 @@ export const trackImpactCardHover = (cardIndex: number, client: string) => {
   })
 }
 
+// Track site searches (GA4 recommended "search" event)
+export const trackSearch = (searchTerm: string, resultCount: number) => {
+  trackEvent(analyticsEvents.SEARCH, {
+    search_term: searchTerm,
+    result_count: resultCount,
+  })
+}
+
+// Track search result selection
+export const trackSearchResultClick = (searchTerm: string, href: string, position: number) => {
+  trackEvent(analyticsEvents.SEARCH_RESULT_CLICK, {
+    search_term: searchTerm,
+    result_href: href,
+    result_position: position,
+  })
+}
+
 // Track scheduling interactions
-export const trackSchedulingEvent = (eventType: 'click' | 'open' | 'scheduled', details?: Record<string, unknown>) => {
+export const trackSchedulingEvent = (
+  eventType: 'click' | 'open' | 'scheduled' | 'rescheduled' | 'cancelled',
+  details?: SchedulingEventParameters
+) => {
   const eventMap = {
     click: analyticsEvents.SCHEDULE_CLICK,
     open: analyticsEvents.CALENDAR_OPEN,
     scheduled: analyticsEvents.MEETING_SCHEDULED,
+    rescheduled: analyticsEvents.MEETING_RESCHEDULED,
+    cancelled: analyticsEvents.MEETING_CANCELLED,
   }
   
   trackEvent(eventMap[eventType], details)
@@ -114,13 +178,13 @@ export const trackError = (errorMessage: string, errorStack?: string, errorType?
   })
 }
 
-// Track cookie consent
-export const trackCookieConsent = (action: 'shown' | 'accepted' | 'declined') => {
+// Track cookie consent; declining is never sent, as analytics are then denied
+export const trackCookieConsent = (action: 'shown' | 'accepted') => {
   const eventMap = {
     shown: analyticsEvents.COOKIE_CONSENT_SHOWN,
     accepted: analyticsEvents.COOKIE_CONSENT_ACCEPTED,
-    declined: analyticsEvents.COOKIE_CONSENT_DECLINED,
   }
   
+  
   trackEvent(eventMap[action])
 }
\ No newline at end of file
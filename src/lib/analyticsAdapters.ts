@@ -0,0 +1,205 @@
+/**
+ * Analytics adapters
+ * trackEvent in lib/analytics fans every event out to the adapters configured
+ * for this build. Each adapter names the cookie category it needs; lib/consent
+ * holds, replays or drops the event per adapter.
+ */
+
+import { track as trackVercelEvent } from '@vercel/analytics';
+import { EVENT_TIMESTAMP_PARAMETER } from './analyticsEvents';
+import type { ConsentCategory } from '../types/consent';
+
+/**
+ * Adapters that can be configured for a build
+ */
+export type AnalyticsAdapterId = 'ga4' | 'plausible' | 'vercel' | 'console' | 'memory';
+
+/**
+ * Whether Vercel Web Analytics is on for this build (NEXT_PUBLIC_VERCEL_ANALYTICS=true);
+ * it only works on Vercel deployments
+ */
+export const VERCEL_ANALYTICS_ENABLED = process.env.NEXT_PUBLIC_VERCEL_ANALYTICS === 'true';
+
+/**
+ * One tracked event, as handed to every adapter
+ */
+export interface AnalyticsEvent {
+  name: string;
+  parameters: Record<string, unknown>;
+  /** Category of the event itself, e.g. "performance" for metrics */
+  category: ConsentCategory;
+  /**
+   * When the event happened, in milliseconds since the epoch; queued events keep it.
+   * GA4, Plausible and Vercel cannot backdate an event, so they receive it as the
+   * `event_timestamp` parameter
+   */
+  timestamp: number;
+  /** Page the event happened on */
+  url: string;
+}
+
+/**
+ * Destination for analytics events
+ */
+export interface AnalyticsAdapter {
+  id: AnalyticsAdapterId;
+  /** Cookie category the visitor has to grant, in addition to the event's own */
+  category: ConsentCategory;
+  send(event: AnalyticsEvent): void;
+}
+
+/**
+ * Adapter that keeps events in memory, for tests and debugging
+ */
+export interface MemoryAnalyticsAdapter extends AnalyticsAdapter {
+  id: 'memory';
+  events: AnalyticsEvent[];
+  clear(): void;
+}
+
+type ScalarValue = string | number | boolean | null;
+
+const withEventTimestamp = ({ parameters, timestamp }: AnalyticsEvent): Record<string, unknown> => ({
+  ...parameters,
+  [EVENT_TIMESTAMP_PARAMETER]: new Date(timestamp).toISOString(),
+});
+
+// Plausible and Vercel only accept flat, scalar properties
+const toScalarProperties = (parameters: Record<string, unknown>): Record<string, ScalarValue> =>
+  Object.fromEntries(
+    Object.entries(parameters).filter(
+      (entry): entry is [string, ScalarValue] =>
+        entry[1] === null || ['string', 'number', 'boolean'].includes(typeof entry[1])
+    )
+  );
+
+/**
+ * Google Analytics 4 through gtag.js, loaded by the Analytics component
+ */
+export const ga4Adapter: AnalyticsAdapter = {
+  id: 'ga4',
+  category: 'analytics',
+  send: (event) => {
+    if (window.gtag) {
+      window.gtag('event', event.name, withEventTimestamp(event));
+    }
+  },
+};
+
+/**
+ * Plausible Events API, or a self-hosted endpoint speaking the same protocol
+ *
+ * @param domain - Site domain as registered with Plausible
+ * @param endpoint - Events API URL
+ */
+export function createPlausibleAdapter(domain: string, endpoint: string = 'https://plausible.io/api/event'): AnalyticsAdapter {
+  return {
+    id: 'plausible',
+    category: 'analytics',
+    send: (event) => {
+      const { name, url } = event;
+      fetch(endpoint, {
+        method: 'POST',
+        // text/plain keeps the request simple, so no CORS preflight is needed
+        headers: { 'Content-Type': 'text/plain' },
+        body: JSON.stringify({
+          name: name === 'page_view' ? 'pageview' : name,
+          url,
+          domain,
+          referrer: document.referrer || null,
+          props: toScalarProperties(withEventTimestamp(event)),
+        }),
+        keepalive: true,
+      }).catch(() => {
+        // Analytics must never break the page
+      });
+    },
+  };
+}
+
+/**
+ * Vercel Web Analytics custom events; page views come from the component
+ * mounted by PerformanceMonitoring
+ */
+export const vercelAdapter: AnalyticsAdapter = {
+  id: 'vercel',
+  category: 'analytics',
+  send: (event) => {
+    trackVercelEvent(event.name, toScalarProperties(withEventTimestamp(event)));
+  },
+};
+
+/**
+ * Logs events to the browser console; nothing leaves the browser
+ */
+export const consoleAdapter: AnalyticsAdapter = {
+  id: 'console',
+  category: 'essential',
+  send: ({ name, parameters, category }) => {
+    console.log('Analytics Event:', name, parameters, `(${category})`);
+  },
+};
+
+/**
+ * Creates an adapter that records events in memory
+ *
+ * @example
+ * ```ts
+ * const sink = createMemoryAdapter();
+ * setAnalyticsAdapters([sink]);
+ * trackSearch('forecast', 3);
+ * sink.events; // [{ name: 'search', parameters: { search_term: 'forecast', result_count: 3 }, ... }]
+ * ```
+ */
+export function createMemoryAdapter(category: ConsentCategory = 'essential'): MemoryAnalyticsAdapter {
+  const events: AnalyticsEvent[] = [];
+  return {
+    id: 'memory',
+    category,
+    events,
+    send: (event) => {
+      events.push(event);
+    },
+    clear: () => {
+      events.length = 0;
+    },
+  };
+}
+
+/**
+ * Resolves the adapters from build configuration
+ * GA4 runs when NEXT_PUBLIC_GA_MEASUREMENT_ID is set, Plausible when
+ * NEXT_PUBLIC_PLAUSIBLE_DOMAIN is set (NEXT_PUBLIC_PLAUSIBLE_ENDPOINT overrides
+ * the API URL), Vercel when NEXT_PUBLIC_VERCEL_ANALYTICS is true, and the
+ * console sink in development
+ */
+export function resolveAnalyticsAdapters(): AnalyticsAdapter[] {
+  const adapters: AnalyticsAdapter[] = [];
+  if (process.env.NEXT_PUBLIC_GA_MEASUREMENT_ID) adapters.push(ga4Adapter);
+
+  const plausibleDomain = process.env.NEXT_PUBLIC_PLAUSIBLE_DOMAIN;
+  if (plausibleDomain) {
+    adapters.push(createPlausibleAdapter(plausibleDomain, process.env.NEXT_PUBLIC_PLAUSIBLE_ENDPOINT || undefined));
+  }
+
+  if (VERCEL_ANALYTICS_ENABLED) adapters.push(vercelAdapter);
+  if (process.env.NODE_ENV === 'development') adapters.push(consoleAdapter);
+  return adapters;
+}
+
+let activeAdapters: AnalyticsAdapter[] | null = null;
+
+/**
+ * Adapters events are currently sent to
+ */
+export function getAnalyticsAdapters(): readonly AnalyticsAdapter[] {
+  activeAdapters ??= resolveAnalyticsAdapters();
+  return activeAdapters;
+}
+
+/**
+ * Replaces the configured adapters, e.g. with a memory adapter in tests
+ */
+export function setAnalyticsAdapters(adapters: AnalyticsAdapter[]): void {
+  activeAdapters = adapters;
+}
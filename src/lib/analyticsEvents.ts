@@ -0,0 +1,281 @@
+/**
+ * Analytics event catalog
+ * Every event trackEvent accepts, with its cookie category and parameter shape.
+ * The types make trackEvent reject unknown events and mistyped parameters at
+ * compile time; validateAnalyticsEvent checks the same rules at runtime in
+ * development, and lib/trackingPlan renders the catalog as the tracking plan.
+ */
+
+import type { ConsentCategory } from '../types/consent';
+
+export type AnalyticsParameterType = 'string' | 'number' | 'boolean';
+
+export interface AnalyticsParameterSpec {
+  type: AnalyticsParameterType;
+  description: string;
+  optional?: boolean;
+  /** Allowed values of a string parameter */
+  values?: readonly string[];
+}
+
+export interface AnalyticsEventSpec {
+  description: string;
+  /** Cookie category the visitor has to grant before the event is sent */
+  category: ConsentCategory;
+  parameters: Readonly<Record<string, AnalyticsParameterSpec>>;
+}
+
+/**
+ * Parameter the adapters add to every event with the time it happened, ISO 8601
+ * Events replayed after consent are counted at send time by every provider,
+ * so reports read the original time from this parameter
+ */
+export const EVENT_TIMESTAMP_PARAMETER = 'event_timestamp';
+
+const optionalString = (description: string) => ({ type: 'string', description, optional: true }) as const;
+
+// Shared by every scheduling event; embeds and the native scheduler report different subsets
+const schedulingParameters = {
+  booking_id: optionalString('Booking reference'),
+  slot_start: optionalString('Start of the booked slot, ISO 8601'),
+  previous_slot_start: optionalString('Start of the slot before a reschedule, ISO 8601'),
+  availability_source: optionalString('Availability source id of the native scheduler'),
+  visitor_time_zone: optionalString('IANA time zone the visitor booked in'),
+  provider: optionalString('Embedded scheduling provider'),
+  provider_event: optionalString('Event name as posted by the embedded provider'),
+  event_uri: optionalString('Calendly event URI'),
+  booking_uid: optionalString('Cal.com booking uid'),
+  qualification_company_size: optionalString('Qualification answer: company size'),
+  qualification_industry: optionalString('Qualification answer: industry'),
+  qualification_data_stack: optionalString('Qualification answer: data stack, comma separated'),
+  qualification_data_stack_count: {
+    type: 'number',
+    description: 'Number of data stack tools selected',
+    optional: true,
+  },
+  qualification_pain_point: optionalString('Qualification answer: main pain point'),
+} as const;
+
+const metricParameters = {
+  metric_name: { type: 'string', description: 'Metric, e.g. LCP or Long Task' },
+  metric_value: { type: 'number', description: 'Measured value, in milliseconds unless the metric says otherwise' },
+} as const;
+
+export const analyticsEventCatalog = {
+  // Page events
+  page_view: {
+    description: 'A page was loaded',
+    category: 'analytics',
+    parameters: {
+      page_location: { type: 'string', description: 'Full URL of the page' },
+      page_title: { type: 'string', description: 'Document title' },
+    },
+  },
+  broken_path: {
+    description: 'The 404 or error page was shown',
+    category: 'analytics',
+    parameters: {
+      page_path: { type: 'string', description: 'Requested path, without base path' },
+      status_code: { type: 'number', description: '404 for missing pages, 500 for render errors' },
+      referrer: optionalString('Page that linked to the broken path'),
+    },
+  },
+
+  // Engagement events
+  cta_click: {
+    description: 'A call-to-action button was clicked',
+    category: 'analytics',
+    parameters: {
+      cta_text: { type: 'string', description: 'Button label' },
+      cta_location: { type: 'string', description: 'Section or component the button is in' },
+    },
+  },
+  section_view: {
+    description: 'A homepage section scrolled into view',
+    category: 'analytics',
+    parameters: {
+      section_name: { type: 'string', description: 'Section id' },
+      time_spent: { type: 'number', description: 'Milliseconds the section stayed in view', optional: true },
+    },
+  },
+  pillar_tab_click: {
+    description: 'A framework pillar tab was selected',
+    category: 'analytics',
+    parameters: {
+      pillar_id: { type: 'string', description: 'Pillar id' },
+      pillar_title: { type: 'string', description: 'Pillar title' },
+    },
+  },
+  impact_card_hover: {
+    description: 'A case-study card in the impact carousel was hovered',
+    category: 'analytics',
+    parameters: {
+      card_index: { type: 'number', description: 'Position in the carousel, from 0' },
+      client_type: { type: 'string', description: 'Client of the case study' },
+    },
+  },
+  search: {
+    description: 'A site search was run (GA4 recommended event)',
+    category: 'analytics',
+    parameters: {
+      search_term: { type: 'string', description: 'Query as typed' },
+      result_count: { type: 'number', description: 'Number of results shown' },
+    },
+  },
+  search_result_click: {
+    description: 'A search result was opened',
+    category: 'analytics',
+    parameters: {
+      search_term: { type: 'string', description: 'Query as typed' },
+      result_href: { type: 'string', description: 'Link of the result, without base path' },
+      result_position: { type: 'number', description: 'Position in the result list, from 0' },
+    },
+  },
+
+  // Conversion events
+  schedule_click: {
+    description: 'A scheduling call-to-action was clicked',
+    category: 'analytics',
+    parameters: schedulingParameters,
+  },
+  calendar_open: {
+    description: 'The booking calendar was shown',
+    category: 'analytics',
+    parameters: schedulingParameters,
+  },
+  meeting_scheduled: {
+    description: 'A consultation was booked',
+    category: 'analytics',
+    parameters: schedulingParameters,
+  },
+  meeting_rescheduled: {
+    description: 'A booking was moved to another slot',
+    category: 'analytics',
+    parameters: schedulingParameters,
+  },
+  meeting_cancelled: {
+    description: 'A booking was cancelled',
+    category: 'analytics',
+    parameters: schedulingParameters,
+  },
+
+  // Performance events
+  performance_issue: {
+    description: 'A measurement exceeded its budget',
+    category: 'performance',
+    parameters: {
+      ...metricParameters,
+      threshold_value: { type: 'number', description: 'Budget the value exceeded' },
+      severity: { type: 'string', description: 'high when the value is over 1.5 times the budget', values: ['high', 'medium'] },
+    },
+  },
+  performance_metric: {
+    description: 'A performance measurement from a real visit',
+    category: 'performance',
+    parameters: {
+      ...metricParameters,
+      custom_parameter: { type: 'boolean', description: 'Whether the value exceeded its threshold' },
+    },
+  },
+  error_occurred: {
+    description: 'A route failed to render',
+    category: 'performance',
+    parameters: {
+      error_message: { type: 'string', description: 'Error message' },
+      error_stack: optionalString('Stack trace'),
+      error_type: optionalString('Where the error was caught, e.g. route_error'),
+    },
+  },
+  exception: {
+    description: 'An uncaught error or unhandled rejection (GA4 exception event)',
+    category: 'performance',
+    parameters: {
+      description: { type: 'string', description: 'Error message' },
+      fatal: { type: 'boolean', description: 'Always false; the page kept running' },
+    },
+  },
+
+  // Cookie consent events
+  cookie_consent_shown: {
+    description: 'The cookie banner was shown; sent only if the visitor then accepts',
+    category: 'analytics',
+    parameters: {},
+  },
+  cookie_consent_accepted: {
+    description: 'The visitor accepted all cookies',
+    category: 'analytics',
+    parameters: {},
+  },
+} as const satisfies Record<string, AnalyticsEventSpec>;
+
+export type AnalyticsEventName = keyof typeof analyticsEventCatalog;
+
+type ParameterValue<Spec extends AnalyticsParameterSpec> = Spec extends { values: readonly (infer Value)[] }
+  ? Value
+  : Spec['type'] extends 'number'
+    ? number
+    : Spec['type'] extends 'boolean'
+      ? boolean
+      : string;
+
+type ParameterShape<Parameters extends Readonly<Record<string, AnalyticsParameterSpec>>> = {
+  -readonly [Key in keyof Parameters as Parameters[Key] extends { optional: true } ? never : Key]: ParameterValue<
+    Parameters[Key]
+  >;
+} & {
+  -readonly [Key in keyof Parameters as Parameters[Key] extends { optional: true } ? Key : never]?: ParameterValue<
+    Parameters[Key]
+  >;
+};
+
+/**
+ * Parameters an event takes, derived from its catalog entry
+ *
+ * @example
+ * ```ts
+ * const parameters: AnalyticsEventParameters<'search'> = { search_term: 'forecast', result_count: 3 };
+ * ```
+ */
+export type AnalyticsEventParameters<Name extends AnalyticsEventName> = ParameterShape<
+  (typeof analyticsEventCatalog)[Name]['parameters']
+>;
+
+export function isAnalyticsEventName(value: string): value is AnalyticsEventName {
+  return Object.prototype.hasOwnProperty.call(analyticsEventCatalog, value);
+}
+
+/**
+ * Checks an event against the catalog, for calls the compiler cannot see
+ * (spreads, casts, data from embeds)
+ *
+ * @returns One message per problem; empty when the event matches its entry
+ *
+ * @example
+ * ```ts
+ * validateAnalyticsEvent('search', { search_term: 'forecast' });
+ * // ['search: missing required parameter "result_count"']
+ * ```
+ */
+export function validateAnalyticsEvent(name: string, parameters: Record<string, unknown>): string[] {
+  if (!isAnalyticsEventName(name)) return [`${name}: not in the analytics event catalog`];
+
+  const specs: Readonly<Record<string, AnalyticsParameterSpec>> = analyticsEventCatalog[name].parameters;
+  const problems: string[] = [];
+
+  for (const [key, spec] of Object.entries(specs)) {
+    const value = parameters[key];
+    if (value === undefined) {
+      if (!spec.optional) problems.push(`${name}: missing required parameter "${key}"`);
+    } else if (typeof value !== spec.type) {
+      problems.push(`${name}: "${key}" should be a ${spec.type}, got ${typeof value}`);
+    } else if (spec.values && !spec.values.includes(value as string)) {
+      problems.push(`${name}: "${key}" should be one of ${spec.values.join(', ')}, got "${value}"`);
+    }
+  }
+
+  for (const key of Object.keys(parameters)) {
+    if (!(key in specs)) problems.push(`${name}: unknown parameter "${key}"`);
+  }
+
+  return problems;
+}
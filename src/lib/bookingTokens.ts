@@ -0,0 +1,133 @@
+/**
+ * Booking management tokens
+ * Confirmed bookings carry an HMAC-signed token (booking ID + slot) issued by
+ * the booking service. The secret never reaches the browser: the client only
+ * decodes the payload for display and asks the service to verify the token
+ * before rescheduling or cancelling.
+ */
+
+import type { BookingRecord, TimeSlot } from './scheduling';
+
+/**
+ * Claims carried by a booking token
+ */
+export interface BookingTokenPayload {
+  bookingId: string;
+  slot: TimeSlot;
+}
+
+/**
+ * Service that verifies booking tokens and applies changes to bookings
+ */
+export interface BookingManagementService {
+  id: string;
+  /** Resolves the booking for a token, or null when the token is rejected */
+  verify(token: string): Promise<BookingRecord | null>;
+  /** Moves the booking to a new slot; the result carries a fresh token */
+  reschedule(token: string, slot: TimeSlot): Promise<BookingRecord>;
+  cancel(token: string): Promise<BookingRecord>;
+}
+
+/**
+ * Path of the static booking management page
+ * The token travels in the URL fragment so it is never sent to the static
+ * host or leaked through Referer headers
+ */
+export const BOOKING_MANAGE_PATH = '/booking/manage/';
+
+const decodeBase64Url = (value: string): string => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+/**
+ * Decodes a booking token without verifying its signature
+ *
+ * @param token - Token in the form `<base64url payload>.<base64url signature>`
+ * @returns Unverified token claims
+ * @throws Error when the token is malformed
+ */
+export function decodeBookingToken(token: string): BookingTokenPayload {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    throw new Error('Booking token must have a payload and a signature');
+  }
+
+  const claims = JSON.parse(decodeBase64Url(payload)) as Partial<BookingTokenPayload> | null;
+  if (
+    !claims ||
+    typeof claims.bookingId !== 'string' ||
+    !claims.slot ||
+    Number.isNaN(Date.parse(claims.slot.start)) ||
+    Number.isNaN(Date.parse(claims.slot.end))
+  ) {
+    throw new Error('Booking token payload is missing a booking ID or slot');
+  }
+
+  return { bookingId: claims.bookingId, slot: { start: claims.slot.start, end: claims.slot.end } };
+}
+
+/**
+ * Builds the management link for a booking token
+ *
+ * @example
+ * ```tsx
+ * <Link href={getBookingManageHref(booking.manageToken)}>Manage booking</Link>
+ * ```
+ */
+export function getBookingManageHref(token: string): string {
+  return `${BOOKING_MANAGE_PATH}#${token}`;
+}
+
+/**
+ * Booking management service backed by HTTP
+ * Expects `POST {baseUrl}/bookings/verify|reschedule|cancel`, as served by
+ * `npm run scheduling:stand-in`
+ *
+ * @param baseUrl - Service origin, without trailing slash
+ */
+export function createHttpBookingManagementService(baseUrl: string): BookingManagementService {
+  const post = (path: string, body: Record<string, unknown>) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  return {
+    id: 'http',
+    verify: async (token) => {
+      const response = await post('/bookings/verify', { token });
+      if (response.status === 401) return null;
+      if (!response.ok) {
+        throw new Error(`Token verification failed with status ${response.status}`);
+      }
+      return (await response.json()) as BookingRecord;
+    },
+    reschedule: async (token, slot) => {
+      const response = await post('/bookings/reschedule', { token, slot });
+      if (!response.ok) {
+        throw new Error(`Reschedule request failed with status ${response.status}`);
+      }
+      return (await response.json()) as BookingRecord;
+    },
+    cancel: async (token) => {
+      const response = await post('/bookings/cancel', { token });
+      if (!response.ok) {
+        throw new Error(`Cancel request failed with status ${response.status}`);
+      }
+      return (await response.json()) as BookingRecord;
+    },
+  };
+}
+
+/**
+ * Picks the booking management service for this build
+ * Bookings can only be changed when NEXT_PUBLIC_AVAILABILITY_URL points at a
+ * service that signs tokens; the bundled static source cannot issue them
+ */
+export function resolveBookingManagementService(): BookingManagementService | null {
+  const url = process.env.NEXT_PUBLIC_AVAILABILITY_URL;
+  return url ? createHttpBookingManagementService(url.replace(/\/$/, '')) : null;
+}
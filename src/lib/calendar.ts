@@ -0,0 +1,187 @@
+/**
+ * Calendar export utilities for confirmed strategic sessions
+ * Generates RFC 5545 iCalendar files and "add to calendar" deep links entirely
+ * on the client, so they work on the static export
+ */
+
+import { seoMetadata, siteContent } from './constants';
+import type { BookingRecord } from './scheduling';
+import type { SiteContent } from './siteContent';
+
+/**
+ * Event details shared by every calendar export format
+ */
+export interface CalendarEventDetails {
+  uid: string;
+  title: string;
+  description: string;
+  start: Date;
+  end: Date;
+  organizerName: string;
+  organizerEmail: string;
+  /** Minutes before the start at which the reminder fires */
+  reminderMinutes: number;
+}
+
+/**
+ * Maps a booking record to calendar event details using site content
+ *
+ * @param booking - Confirmed booking
+ * @param content - Site content of the page locale
+ * @returns Event details for ICS and deep-link generation
+ */
+export function getBookingEventDetails(booking: BookingRecord, content: SiteContent = siteContent): CalendarEventDetails {
+  const { scheduling, footer } = content;
+  return {
+    uid: `${booking.id}@${new URL(seoMetadata.url).hostname}`,
+    title: booking.meetingTitle,
+    description: `${scheduling.meetingDescription}\n\n${scheduling.bookingReferenceLabel}: ${booking.id}`,
+    start: new Date(booking.slot.start),
+    end: new Date(booking.slot.end),
+    organizerName: footer.companyName,
+    organizerEmail: footer.contactEmail,
+    reminderMinutes: scheduling.reminderMinutes,
+  };
+}
+
+/**
+ * Formats an instant as an iCalendar UTC date-time (e.g. 20250115T140000Z)
+ */
+export function formatICSDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Escapes a TEXT property value per RFC 5545 section 3.3.11
+ */
+export function escapeICSText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line to 75 octets per RFC 5545 section 3.1
+ * Continuation lines start with a single space; multi-byte characters are never split
+ */
+export function foldICSLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+/**
+ * Generates an RFC 5545 iCalendar document for a single event
+ *
+ * @param event - Event details
+ * @param now - Timestamp used for DTSTAMP
+ * @returns iCalendar text with CRLF line endings
+ *
+ * @example
+ * ```ts
+ * const ics = generateICS(getBookingEventDetails(booking));
+ * ```
+ */
+export function generateICS(event: CalendarEventDetails, now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${siteContent.footer.companyName}//Strategic Sessions//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatICSDate(now)}`,
+    `DTSTART:${formatICSDate(event.start)}`,
+    `DTEND:${formatICSDate(event.end)}`,
+    `SUMMARY:${escapeICSText(event.title)}`,
+    `DESCRIPTION:${escapeICSText(event.description)}`,
+    `ORGANIZER;CN="${event.organizerName.replace(/"/g, "'")}":mailto:${event.organizerEmail}`,
+    'STATUS:CONFIRMED',
+    'SEQUENCE:0',
+    'TRANSP:OPAQUE',
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeICSText(event.title)}`,
+    `TRIGGER:-PT${event.reminderMinutes}M`,
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldICSLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Triggers a browser download of an .ics file for an event
+ *
+ * @param event - Event details
+ * @param filename - Download file name (default: "auxo-strategic-session.ics")
+ */
+export function downloadICS(event: CalendarEventDetails, filename: string = 'auxo-strategic-session.ics'): void {
+  if (typeof document === 'undefined') return;
+
+  const blob = new Blob([generateICS(event)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Builds a Google Calendar "create event" link
+ */
+export function getGoogleCalendarUrl(event: CalendarEventDetails): string {
+  const params = new URLSearchParams({
+    action: 'TEMPLATE',
+    text: event.title,
+    dates: `${formatICSDate(event.start)}/${formatICSDate(event.end)}`,
+    details: event.description,
+  });
+  return `https://calendar.google.com/calendar/render?${params}`;
+}
+
+/**
+ * Builds an Outlook "compose event" deep link
+ *
+ * @param event - Event details
+ * @param account - "personal" for outlook.live.com, "work" for outlook.office.com
+ */
+export function getOutlookCalendarUrl(
+  event: CalendarEventDetails,
+  account: 'personal' | 'work' = 'personal'
+): string {
+  const host = account === 'work' ? 'https://outlook.office.com' : 'https://outlook.live.com';
+  const params = new URLSearchParams({
+    path: '/calendar/action/compose',
+    rru: 'addevent',
+    subject: event.title,
+    startdt: event.start.toISOString(),
+    enddt: event.end.toISOString(),
+    body: event.description,
+  });
+  return `${host}/calendar/0/deeplink/compose?${params}`;
+}
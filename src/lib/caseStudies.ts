@@ -0,0 +1,106 @@
+/**
+ * Case studies
+ * `caseStudies` in content/site/en/impact.json is the single source for case-study
+ * content.
+ */
+
+import { siteContent } from './constants';
+import { filterPublished } from './publishing';
+import type { SiteContent } from './siteContent';
+import type { CaseStudy } from '../types/caseStudy';
+
+/**
+ * Base path of the case-study pages
+ */
+export const CASE_STUDIES_PATH = '/case-studies/';
+
+/**
+ * Checks canonical case studies for completeness and duplicate ids
+ *
+ * @returns Human-readable problems; empty when everything is consistent
+ */
+export function validateCaseStudies(caseStudies: readonly CaseStudy[]): string[] {
+  const problems: string[] = [];
+  const seen = new Set<number>();
+
+  for (const caseStudy of caseStudies) {
+    const source = `case study ${caseStudy.id} (${caseStudy.client})`;
+    if (seen.has(caseStudy.id)) problems.push(`${source}: duplicate id`);
+    seen.add(caseStudy.id);
+
+    for (const field of ['client', 'industry', 'challenge', 'solution', 'outcome'] as const) {
+      if (!caseStudy[field].trim()) problems.push(`${source}: ${field} is empty`);
+    }
+    if (!caseStudy.summary.challenge.trim() || !caseStudy.summary.outcome.trim()) {
+      problems.push(`${source}: summary needs a challenge and an outcome`);
+    }
+    if (caseStudy.metrics.length === 0) problems.push(`${source}: no metrics`);
+  }
+
+  return problems;
+}
+
+let validated = false;
+
+/**
+ * Every case study in this build, in carousel order
+ * Drafts and future-scheduled case studies are validated but only returned by preview builds
+ *
+ * @throws Error on first use when the content is incomplete, which fails the static export
+ */
+export function getAllCaseStudies(): readonly CaseStudy[] {
+  const { caseStudies } = siteContent.impact;
+  if (!validated) {
+    const problems = validateCaseStudies(caseStudies);
+    if (problems.length > 0) {
+      throw new Error(`Invalid case-study content in content/site/en/impact.json\n${problems.join('\n')}`);
+    }
+    validated = true;
+  }
+  return filterPublished(caseStudies);
+}
+
+/**
+ * Case studies of a translated impact section, in carousel order
+ * Translations keep the ids, order and status of the default-locale records,
+ * which are validated here as well
+ */
+export function getLocalizedCaseStudies(impact: SiteContent['impact']): readonly CaseStudy[] {
+  getAllCaseStudies();
+  return filterPublished(impact.caseStudies);
+}
+
+export function getCaseStudyById(id: number | string): CaseStudy | undefined {
+  return getAllCaseStudies().find((caseStudy) => String(caseStudy.id) === String(id));
+}
+
+/**
+ * Distinct industries, alphabetically
+ */
+export function getCaseStudyIndustries(): string[] {
+  return Array.from(new Set(getAllCaseStudies().map((caseStudy) => caseStudy.industry))).sort();
+}
+
+/**
+ * Link to a case-study page
+ *
+ * @example
+ * ```tsx
+ * <Link href={getCaseStudyHref(caseStudy.id)}>Read the case study</Link>
+ * ```
+ */
+export function getCaseStudyHref(id: number | string): string {
+  return `${CASE_STUDIES_PATH}${id}/`;
+}
+
+/**
+ * URL-safe value for the industry filter
+ *
+ * @example
+ * ```ts
+ * toIndustrySlug('Financial Services'); // "financial-services"
+ * ```
+ */
+export function toIndustrySlug(industry: string): string {
+  return industry.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,271 @@
+/**
+ * Cookie consent
+ * Visitors choose per category in the cookie banner's preferences center. The
+ * choice is stored as a record with the privacy policy version and a
+ * timestamp; a newer policy version asks again. Every tracker sends through
+ * `whenConsented` with its category: while no choice is recorded, sends wait
+ * in memory with the time they happened and are replayed for granted
+ * categories or discarded for denied ones. Choices are mirrored to Google
+ * Consent Mode v2.
+ *
+ * Browsers that send Global Privacy Control or Do Not Track get an
+ * essential-only record without seeing the banner. The record notes the
+ * signal, and the visitor is asked again if the signal goes away.
+ */
+
+import { useSyncExternalStore } from 'react';
+import { privacyPolicyContent } from './constants';
+import { CONSENT_CATEGORIES, type ConsentCategory, type ConsentRecord, type ConsentSource } from '../types/consent';
+
+export { CONSENT_CATEGORIES };
+
+export type ConsentState = 'pending' | 'granted' | 'denied';
+
+/** Holds the JSON consent record */
+export const CONSENT_STORAGE_KEY = 'cookie-consent';
+
+/** Pre-record key that only knew about analytics; removed on the next choice */
+const LEGACY_ANALYTICS_CONSENT_KEY = 'analytics-consent';
+
+/**
+ * Policy version consent is asked against; adding an entry to
+ * privacyPolicyContent.versions prompts every visitor again
+ */
+export const CONSENT_POLICY_VERSION = privacyPolicyContent.versions[privacyPolicyContent.versions.length - 1].version;
+
+/** Window event that opens the preferences center, see openConsentPreferences */
+export const OPEN_CONSENT_PREFERENCES_EVENT = 'auxo:open-consent-preferences';
+
+/**
+ * Sends kept while consent is pending; the oldest are dropped beyond this so
+ * an undecided visit cannot grow the queue without bound
+ */
+export const MAX_QUEUED_SENDS = 300;
+
+/**
+ * Delivers one tracking call
+ *
+ * @param timestamp - When the call was made, in milliseconds since the epoch
+ */
+export type ConsentedSend = (timestamp: number) => void;
+
+/** Browser privacy signal honored as an essential-only choice */
+export type PrivacySignal = Exclude<ConsentSource, 'choice'>;
+
+/** Google Consent Mode v2 state */
+export type ConsentModeState = Record<
+  'analytics_storage' | 'ad_storage' | 'ad_user_data' | 'ad_personalization',
+  'granted' | 'denied'
+>;
+
+// undefined until read from storage, null when nothing valid is stored
+let storedRecord: ConsentRecord | null | undefined;
+const queue: { categories: readonly ConsentCategory[]; send: ConsentedSend; timestamp: number }[] = [];
+// Categories allowed one at a time before a full choice, e.g. from an embed placeholder; kept for this page load
+const provisionalGrants = new Set<ConsentCategory>();
+const listeners = new Set<() => void>();
+
+const isConsentRecord = (value: unknown): value is ConsentRecord => {
+  if (typeof value !== 'object' || value === null) return false;
+  const record = value as Partial<ConsentRecord>;
+  return (
+    typeof record.version === 'string' &&
+    typeof record.timestamp === 'string' &&
+    typeof record.categories === 'object' &&
+    record.categories !== null &&
+    CONSENT_CATEGORIES.every((category) => typeof record.categories?.[category] === 'boolean')
+  );
+};
+
+function readStoredRecord(): ConsentRecord | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CONSENT_STORAGE_KEY) ?? 'null');
+    return isConsentRecord(stored) ? stored : null;
+  } catch {
+    // Values written before consent records were JSON, e.g. "accepted"
+    return null;
+  }
+}
+
+/**
+ * The visitor's last stored choice, whatever policy version it was made against
+ * Used to prefill the preferences center when asking again
+ */
+export function getStoredConsentRecord(): ConsentRecord | null {
+  if (typeof window === 'undefined') return null;
+  if (storedRecord === undefined) storedRecord = readStoredRecord();
+  return storedRecord;
+}
+
+/**
+ * Global Privacy Control or Do Not Track, if the browser sends either
+ * Static hosting cannot read the Sec-GPC header, so this reads the script API
+ * that browsers sending the header also expose
+ */
+export function detectPrivacySignal(): PrivacySignal | null {
+  if (typeof window === 'undefined') return null;
+  const browser = navigator as Navigator & { globalPrivacyControl?: boolean };
+  if (browser.globalPrivacyControl === true) return 'gpc';
+  const doNotTrack = browser.doNotTrack ?? (window as Window & { doNotTrack?: string }).doNotTrack;
+  return doNotTrack === '1' || doNotTrack === 'yes' ? 'dnt' : null;
+}
+
+/**
+ * The choice in effect for the current policy version, or null when the
+ * visitor still has to choose. A signal-derived record lapses once the
+ * browser stops sending the signal.
+ */
+export function getConsentRecord(): ConsentRecord | null {
+  const record = getStoredConsentRecord();
+  if (record?.version !== CONSENT_POLICY_VERSION) return null;
+  if (record.source && record.source !== 'choice' && !detectPrivacySignal()) return null;
+  return record;
+}
+
+/**
+ * Consent for one category; essential cookies are always granted
+ * and everything else is pending during server rendering
+ */
+export function getConsent(category: ConsentCategory): ConsentState {
+  if (category === 'essential') return 'granted';
+  const record = getConsentRecord();
+  if (!record) return provisionalGrants.has(category) ? 'granted' : 'pending';
+  return record.categories[category] ? 'granted' : 'denied';
+}
+
+/**
+ * Runs a tracking call now, later or never, depending on consent for its
+ * categories; with several categories, every one of them has to be granted
+ *
+ * @example
+ * ```ts
+ * whenConsented('performance', (timestamp) => console.log('LCP', value, new Date(timestamp)));
+ * ```
+ */
+export function whenConsented(category: ConsentCategory | readonly ConsentCategory[], send: ConsentedSend): void {
+  const categories = typeof category === 'string' ? [category] : category;
+  const states = categories.map(getConsent);
+  if (states.includes('denied')) return;
+
+  if (states.every((state) => state === 'granted')) {
+    send(Date.now());
+  } else if (typeof window !== 'undefined') {
+    queue.push({ categories, send, timestamp: Date.now() });
+    if (queue.length > MAX_QUEUED_SENDS) queue.shift();
+  }
+}
+
+/**
+ * Google Consent Mode v2 signals for a choice; ads signals follow the marketing category
+ */
+export function toConsentModeState(record: ConsentRecord | null): ConsentModeState {
+  const signal = (granted: boolean | undefined) => (granted ? 'granted' : 'denied');
+  const marketing = signal(record?.categories.marketing);
+  return {
+    analytics_storage: signal(record?.categories.analytics),
+    ad_storage: marketing,
+    ad_user_data: marketing,
+    ad_personalization: marketing,
+  };
+}
+
+/**
+ * Records a choice for the current policy version, then replays the queued
+ * sends of granted categories and discards the rest
+ *
+ * @param categories - Categories to grant; anything omitted is denied, except essential
+ * @param source - Whether the visitor chose or a privacy signal decided
+ * @returns The stored record
+ */
+export function saveConsent(
+  categories: Partial<Record<ConsentCategory, boolean>>,
+  source: ConsentSource = 'choice'
+): ConsentRecord {
+  const record: ConsentRecord = {
+    version: CONSENT_POLICY_VERSION,
+    timestamp: new Date().toISOString(),
+    categories: Object.fromEntries(
+      CONSENT_CATEGORIES.map((category) => [category, category === 'essential' || categories[category] === true])
+    ) as Record<ConsentCategory, boolean>,
+    source,
+  };
+
+  localStorage.setItem(CONSENT_STORAGE_KEY, JSON.stringify(record));
+  localStorage.removeItem(LEGACY_ANALYTICS_CONSENT_KEY);
+  storedRecord = record;
+  provisionalGrants.clear();
+
+  if (window.gtag) {
+    window.gtag('consent', 'update', toConsentModeState(record));
+  }
+
+  queue.splice(0).forEach(({ categories, send, timestamp }) => {
+    if (categories.every((category) => record.categories[category])) send(timestamp);
+  });
+  listeners.forEach((listener) => listener());
+  return record;
+}
+
+/**
+ * Stores an essential-only record when the browser sends a privacy signal and
+ * the visitor has not chosen for this policy version. A choice made in the
+ * preferences center afterwards takes precedence over the signal.
+ *
+ * @returns The record now in effect, or null when the visitor still has to choose
+ */
+export function applyPrivacySignal(): ConsentRecord | null {
+  const record = getConsentRecord();
+  if (record) return record;
+  const signal = detectPrivacySignal();
+  return signal ? saveConsent({}, signal) : null;
+}
+
+/**
+ * Grants one category, e.g. from an embed placeholder
+ * With a choice on record the category is added to it. Without one, only this
+ * category is granted until the page reloads: the banner stays open and the
+ * sends queued for other categories keep waiting for the visitor's choice.
+ *
+ * @returns The updated record, or null when the visitor still has to choose
+ */
+export function grantConsent(category: ConsentCategory): ConsentRecord | null {
+  const record = getConsentRecord();
+  if (record) return saveConsent({ ...record.categories, [category]: true });
+
+  provisionalGrants.add(category);
+  queue.splice(0).forEach((entry) => {
+    if (entry.categories.every((item) => getConsent(item) === 'granted')) {
+      entry.send(entry.timestamp);
+    } else {
+      queue.push(entry);
+    }
+  });
+  listeners.forEach((listener) => listener());
+  return null;
+}
+
+/**
+ * Asks the cookie banner to open its preferences center
+ */
+export function openConsentPreferences(): void {
+  window.dispatchEvent(new Event(OPEN_CONSENT_PREFERENCES_EVENT));
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Consent for one category as React state, for components that load
+ * third-party trackers or embeds. Pending on the server and during hydration.
+ */
+export function useConsent(category: ConsentCategory): ConsentState {
+  return useSyncExternalStore(
+    subscribe,
+    () => getConsent(category),
+    () => (category === 'essential' ? 'granted' : 'pending')
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * Site content dictionaries
+ * content/site/en holds the complete English copy. Other locales keep only
+ * their translated strings in content/site/<locale>, merged over English so
+ * ids, links and scheduling settings are shared. lib/siteContent validates
+ * every locale at build time.
+ */
+
+import enNavigation from '../../content/site/en/navigation.json';
+import enHero from '../../content/site/en/hero.json';
+import enChallenge from '../../content/site/en/challenge.json';
+import enFramework from '../../content/site/en/framework.json';
+import enImpact from '../../content/site/en/impact.json';
+import enEngagement from '../../content/site/en/engagement.json';
+import enFooter from '../../content/site/en/footer.json';
+import enScheduling from '../../content/site/en/scheduling.json';
+import enConsent from '../../content/site/en/consent.json';
+import enSearch from '../../content/site/en/search.json';
+import enErrorPage from '../../content/site/en/errorPage.json';
+import arNavigation from '../../content/site/ar/navigation.json';
+import arHero from '../../content/site/ar/hero.json';
+import arChallenge from '../../content/site/ar/challenge.json';
+import arFramework from '../../content/site/ar/framework.json';
+import arImpact from '../../content/site/ar/impact.json';
+import arEngagement from '../../content/site/ar/engagement.json';
+import arFooter from '../../content/site/ar/footer.json';
+import arScheduling from '../../content/site/ar/scheduling.json';
+import arConsent from '../../content/site/ar/consent.json';
+import arSearch from '../../content/site/ar/search.json';
+import arErrorPage from '../../content/site/ar/errorPage.json';
+import { mergeDictionary, type Locale } from './i18n';
+import type { SiteContent, SiteContentJson } from './siteContent';
+
+// Missing or mistyped fields fail the type-check. JSON imports widen enums such
+// as `status` to string, so those are narrowed here and checked by the schemas
+// in lib/siteContent at build time
+const englishSiteContent = {
+  navigation: enNavigation,
+  hero: enHero,
+  challenge: enChallenge,
+  framework: enFramework,
+  impact: enImpact,
+  engagement: enEngagement,
+  footer: enFooter,
+  scheduling: enScheduling,
+  consent: enConsent,
+  search: enSearch,
+  errorPage: enErrorPage,
+} satisfies SiteContentJson as SiteContent;
+
+/**
+ * Translations as written, before merging; kept for validation
+ */
+export const siteContentOverlays: Partial<Record<Locale, Record<string, unknown>>> = {
+  ar: {
+    navigation: arNavigation,
+    hero: arHero,
+    challenge: arChallenge,
+    framework: arFramework,
+    impact: arImpact,
+    engagement: arEngagement,
+    footer: arFooter,
+    scheduling: arScheduling,
+    consent: arConsent,
+    search: arSearch,
+    errorPage: arErrorPage,
+  },
+};
+
+export const siteContentByLocale: Record<Locale, SiteContent> = {
+  en: englishSiteContent,
+  ar: mergeDictionary(englishSiteContent, siteContentOverlays.ar),
+};
+
+/**
+ * Complete site content for a locale
+ *
+ * @example
+ * ```tsx
+ * const { hero } = getSiteContent('ar');
+ * ```
+ */
+export function getSiteContent(locale: Locale): SiteContent {
+  return siteContentByLocale[locale];
+}
@@ -1,4 +1,8 @@
 // Error tracking and monitoring utilities
+// Reports leave the browser only with performance monitoring consent, see lib/consent
+
+import { analyticsEvents, trackEvent } from './analytics'
+import { whenConsented } from './consent'
 
 interface ErrorReport {
   message: string
@@ -52,27 +56,27 @@ export const reportError = (error: ErrorReport) => {
   }
 
   // Send to Google Analytics as an event
-  if (typeof window !== 'undefined' && window.gtag) {
-    window.gtag('event', 'exception', {
-      description: error.message,
-      fatal: false,
-    })
-  }
+  trackEvent(analyticsEvents.EXCEPTION, {
+    description: error.message,
+    fatal: false,
+  })
 
   // Send to custom error endpoint (if available)
-  try {
-    fetch('/api/errors', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(error),
-    }).catch(() => {
-      // Silently fail if error reporting fails
-    })
-  } catch {
-    // Silently fail if fetch is not available
-  }
+  whenConsented('performance', () => {
+    try {
+      fetch('/api/errors', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(error),
+      }).catch(() => {
+        // Silently fail if error reporting fails
+      })
+    } catch {
+      // Silently fail if fetch is not available
+    }
+  })
 }
 
 // Manual error reporting
@@ -0,0 +1,275 @@
+/**
+ * Syndication feeds for insights
+ * Builds RSS 2.0, Atom 1.0 and JSON Feed 1.1 documents from BlogPost records
+ * during the static export. Server-only: compiles posts through lib/insights.
+ */
+
+import type { MDXRemoteProps } from 'next-mdx-remote/rsc';
+import { insightsContent } from './constants';
+import { compilePostContent, getAllPosts, getCategoryBySlug } from './insights';
+import { absoluteUrl } from './urls';
+import type { BlogPost } from '../types/blog';
+
+export type FeedContentMode = 'full' | 'excerpt';
+
+/**
+ * Options shared by every feed format
+ */
+export interface FeedOptions {
+  /** Embed the rendered article or only the excerpt */
+  mode?: FeedContentMode;
+  /** Restrict the feed to one category slug */
+  category?: string;
+  /** Maximum number of items, newest first */
+  limit?: number;
+  /** Feed-safe MDX components used to render post bodies; required when mode is "full" */
+  components?: NonNullable<MDXRemoteProps['components']>;
+}
+
+interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  contentHtml?: string;
+  publishedAt: string;
+  updatedAt: string;
+  author: BlogPost['author'];
+  categories: string[];
+}
+
+interface FeedDocument {
+  title: string;
+  description: string;
+  homeUrl: string;
+  urls: ReturnType<typeof getFeedUrls>;
+  updatedAt: string;
+  items: FeedItem[];
+}
+
+const { feed } = insightsContent;
+
+/**
+ * Feed paths for the whole site or a single category
+ *
+ * @param category - Optional category slug
+ * @returns Site-relative paths (without base path) for each format
+ */
+export function getFeedPaths(category?: string) {
+  const prefix = category ? `/insights/category/${category}` : '';
+  return {
+    rss: `${prefix}/feed.xml`,
+    atom: `${prefix}/atom.xml`,
+    json: `${prefix}/feed.json`,
+  };
+}
+
+/**
+ * Absolute feed URLs, including the base path
+ */
+export function getFeedUrls(category?: string) {
+  const paths = getFeedPaths(category);
+  return {
+    rss: absoluteUrl(paths.rss),
+    atom: absoluteUrl(paths.atom),
+    json: absoluteUrl(paths.json),
+  };
+}
+
+/**
+ * Feed discovery links for page metadata (`alternates.types`)
+ *
+ * @example
+ * ```ts
+ * export const metadata = {
+ *   ...generatePageMetadata(title, description, '/insights/'),
+ *   alternates: { canonical: '/insights/', types: getFeedAlternates() },
+ * };
+ * ```
+ */
+export function getFeedAlternates(category?: string) {
+  const urls = getFeedUrls(category);
+  return {
+    'application/rss+xml': urls.rss,
+    'application/atom+xml': urls.atom,
+    'application/feed+json': urls.json,
+  };
+}
+
+/**
+ * Escapes text for XML element content and attribute values
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const toIsoDateTime = (date: string) => new Date(date).toISOString();
+
+/**
+ * Rewrites site-relative links and images to absolute URLs so they resolve in feed readers
+ */
+export function absolutizeHtml(html: string): string {
+  return html.replace(/(href|src)="(\/[^"]*)"/g, (_, attribute: string, path: string) => `${attribute}="${absoluteUrl(path)}"`);
+}
+
+async function renderFeedContent(post: BlogPost, components: NonNullable<MDXRemoteProps['components']>) {
+  // Imported lazily so page bundles never pull in the server renderer
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  return absolutizeHtml(renderToStaticMarkup(await compilePostContent(post, components)));
+}
+
+async function buildFeed({
+  mode = feed.contentMode,
+  category,
+  limit = feed.itemLimit,
+  components,
+}: FeedOptions): Promise<FeedDocument> {
+  const categoryRecord = category ? getCategoryBySlug(category) : undefined;
+  if (category && !categoryRecord) {
+    throw new Error(`Unknown insights category "${category}"`);
+  }
+  if (mode === 'full' && !components) {
+    throw new Error('Full-content feeds need the feed MDX components to render posts');
+  }
+
+  const posts = getAllPosts()
+    .filter((post) => !category || post.category === category)
+    .sort((a, b) => Date.parse(b.publishedAt) - Date.parse(a.publishedAt))
+    .slice(0, limit);
+
+  const items = await Promise.all(
+    posts.map(async (post): Promise<FeedItem> => ({
+      id: absoluteUrl(`/insights/${post.slug}/`),
+      url: absoluteUrl(`/insights/${post.slug}/`),
+      title: post.title,
+      summary: post.excerpt,
+      contentHtml: mode === 'full' && components ? await renderFeedContent(post, components) : undefined,
+      publishedAt: toIsoDateTime(post.publishedAt),
+      updatedAt: toIsoDateTime(post.updatedAt ?? post.publishedAt),
+      author: post.author,
+      categories: [getCategoryBySlug(post.category)?.name ?? post.category, ...post.tags],
+    }))
+  );
+
+  const updatedAt = items.reduce(
+    (latest, item) => (item.updatedAt > latest ? item.updatedAt : latest),
+    new Date(0).toISOString()
+  );
+
+  return {
+    title: categoryRecord ? `${feed.title}: ${categoryRecord.name}` : feed.title,
+    description: categoryRecord?.description ?? feed.description,
+    homeUrl: absoluteUrl(categoryRecord ? `/insights/category/${categoryRecord.slug}/` : '/insights/'),
+    urls: getFeedUrls(categoryRecord?.slug),
+    updatedAt,
+    items,
+  };
+}
+
+/**
+ * Generates an RSS 2.0 document
+ *
+ * @example
+ * ```ts
+ * await generateRSS({ components: getFeedMDXComponents(), category: 'data-foundations' });
+ * ```
+ */
+export async function generateRSS(options: FeedOptions = {}): Promise<string> {
+  const document = await buildFeed(options);
+
+  const items = document.items.map((item) => [
+    '    <item>',
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <link>${escapeXml(item.url)}</link>`,
+    `      <guid isPermaLink="true">${escapeXml(item.id)}</guid>`,
+    `      <pubDate>${new Date(item.publishedAt).toUTCString()}</pubDate>`,
+    `      <dc:creator>${escapeXml(item.author.name)}</dc:creator>`,
+    ...item.categories.map((category) => `      <category>${escapeXml(category)}</category>`),
+    `      <description>${escapeXml(item.summary)}</description>`,
+    ...(item.contentHtml ? [`      <content:encoded><![CDATA[${item.contentHtml.replace(/]]>/g, ']]]]><![CDATA[>')}]]></content:encoded>`] : []),
+    '    </item>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(document.title)}</title>`,
+    `    <link>${escapeXml(document.homeUrl)}</link>`,
+    `    <description>${escapeXml(document.description)}</description>`,
+    `    <language>${feed.language}</language>`,
+    `    <lastBuildDate>${new Date(document.updatedAt).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(document.urls.rss)}" rel="self" type="application/rss+xml"/>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Generates an Atom 1.0 document
+ */
+export async function generateAtom(options: FeedOptions = {}): Promise<string> {
+  const document = await buildFeed(options);
+
+  const entries = document.items.map((item) => [
+    '  <entry>',
+    `    <title>${escapeXml(item.title)}</title>`,
+    `    <link href="${escapeXml(item.url)}"/>`,
+    `    <id>${escapeXml(item.id)}</id>`,
+    `    <published>${item.publishedAt}</published>`,
+    `    <updated>${item.updatedAt}</updated>`,
+    `    <author><name>${escapeXml(item.author.name)}</name></author>`,
+    ...item.categories.map((category) => `    <category term="${escapeXml(category)}"/>`),
+    `    <summary>${escapeXml(item.summary)}</summary>`,
+    ...(item.contentHtml ? [`    <content type="html">${escapeXml(item.contentHtml)}</content>`] : []),
+    '  </entry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${feed.language}">`,
+    `  <title>${escapeXml(document.title)}</title>`,
+    `  <subtitle>${escapeXml(document.description)}</subtitle>`,
+    `  <link href="${escapeXml(document.homeUrl)}"/>`,
+    `  <link href="${escapeXml(document.urls.atom)}" rel="self" type="application/atom+xml"/>`,
+    `  <id>${escapeXml(document.homeUrl)}</id>`,
+    `  <updated>${document.updatedAt}</updated>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Generates a JSON Feed 1.1 document
+ */
+export async function generateJSONFeed(options: FeedOptions = {}): Promise<string> {
+  const document = await buildFeed(options);
+
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: document.title,
+    description: document.description,
+    home_page_url: document.homeUrl,
+    feed_url: document.urls.json,
+    language: feed.language,
+    items: document.items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      ...(item.contentHtml ? { content_html: item.contentHtml } : { content_text: item.summary }),
+      date_published: item.publishedAt,
+      date_modified: item.updatedAt,
+      authors: [{ name: item.author.name }],
+      tags: item.categories,
+    })),
+  }, null, 2);
+}
@@ -0,0 +1,126 @@
+/**
+ * Locale-aware formatting
+ * Content stores metrics as amounts and dates as ISO strings; these helpers
+ * render them with Intl for the page locale, so digits, separators, compact
+ * suffixes and month names follow the language. Safe to import from client code.
+ */
+
+import { DEFAULT_LOCALE, LOCALE_SETTINGS, type Locale } from './i18n';
+import type { CaseStudyMetric, MetricUnit } from '../types/caseStudy';
+
+export const METRIC_UNITS = ['number', 'percent', 'currency', 'multiple'] as const satisfies readonly MetricUnit[];
+
+/**
+ * Units of each currency per US dollar
+ * Only currencies pegged to the dollar are listed, so the fixed rates stay
+ * accurate without a rates feed
+ */
+export const EXCHANGE_RATES: Readonly<Record<string, number>> = {
+  USD: 1,
+  SAR: 3.75,
+  AED: 3.6725,
+};
+
+const numberFormat = (locale: Locale, options: Intl.NumberFormatOptions = {}) =>
+  new Intl.NumberFormat(LOCALE_SETTINGS[locale].intlLocale, { maximumFractionDigits: 1, ...options });
+
+/**
+ * Formats a number compactly, with the locale's suffixes
+ *
+ * @param precision - Maximum decimal places
+ *
+ * @example
+ * ```ts
+ * formatCompactNumber(1500); // "1.5K"
+ * formatCompactNumber(1500, 'ar'); // "1.5 ألف"
+ * ```
+ */
+export function formatCompactNumber(value: number, locale: Locale = DEFAULT_LOCALE, precision: number = 1): string {
+  return numberFormat(locale, { notation: 'compact', maximumFractionDigits: precision }).format(value);
+}
+
+/**
+ * Formats a currency amount compactly
+ *
+ * @example
+ * ```ts
+ * formatCurrency(1800000, 'USD'); // "$1.8M"
+ * formatCurrency(1800000, 'USD', 'ar'); // "1.8 مليون US$"
+ * ```
+ */
+export function formatCurrency(amount: number, currency: string, locale: Locale = DEFAULT_LOCALE): string {
+  return numberFormat(locale, { style: 'currency', currency, notation: 'compact' }).format(amount);
+}
+
+/**
+ * Converts an amount between two currencies in EXCHANGE_RATES
+ *
+ * @returns The converted amount, or null when either rate is unknown
+ */
+export function convertCurrency(amount: number, from: string, to: string): number | null {
+  const fromRate = EXCHANGE_RATES[from];
+  const toRate = EXCHANGE_RATES[to];
+  return fromRate && toRate ? (amount / fromRate) * toRate : null;
+}
+
+/**
+ * Renders a metric value for display
+ *
+ * @example
+ * ```ts
+ * formatMetricValue({ amount: 1800000, unit: 'currency', currency: 'USD', label: 'Annual Savings' }); // "$1.8M"
+ * formatMetricValue({ amount: 2, from: 5, unit: 'number', label: 'Days to Hours' }); // "5→2"
+ * ```
+ */
+export function formatMetricValue(metric: CaseStudyMetric, locale: Locale = DEFAULT_LOCALE): string {
+  const format = (value: number) => numberFormat(locale).format(value);
+
+  switch (metric.unit) {
+    case 'currency':
+      return formatCurrency(metric.amount, metric.currency ?? LOCALE_SETTINGS[DEFAULT_LOCALE].currency, locale);
+    case 'percent':
+      return numberFormat(locale, { style: 'percent' }).format(metric.amount / 100);
+    case 'multiple':
+      return `${format(metric.amount)}x`;
+    case 'number': {
+      if (metric.from === undefined) return format(metric.amount);
+      // The arrow points the way the line reads
+      const arrow = LOCALE_SETTINGS[locale].dir === 'rtl' ? '←' : '→';
+      return `${format(metric.from)}${arrow}${format(metric.amount)}`;
+    }
+  }
+}
+
+/**
+ * Approximate value of a currency metric in the locale's own currency
+ *
+ * @returns A label such as "≈ 6.8 مليون ر.س.", or null when the metric is not
+ * a currency amount, is already in the locale currency or has no known rate
+ */
+export function formatCurrencyConversion(metric: CaseStudyMetric, locale: Locale = DEFAULT_LOCALE): string | null {
+  const { currency } = LOCALE_SETTINGS[locale];
+  if (metric.unit !== 'currency' || !metric.currency || metric.currency === currency) return null;
+
+  const converted = convertCurrency(metric.amount, metric.currency, currency);
+  return converted === null ? null : `≈ ${formatCurrency(converted, currency, locale)}`;
+}
+
+/**
+ * Formats an ISO date or date-time
+ * Shown in UTC, so a date-only string never shifts a day with the visitor's time zone
+ *
+ * @example
+ * ```ts
+ * formatDate('2025-01-14'); // "January 14, 2025"
+ * formatDate('2024-12-01', 'ar', { month: 'long', year: 'numeric' }); // "ديسمبر 2024"
+ * ```
+ */
+export function formatDate(
+  date: string | Date,
+  locale: Locale = DEFAULT_LOCALE,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' }
+): string {
+  return new Intl.DateTimeFormat(LOCALE_SETTINGS[locale].intlLocale, { timeZone: 'UTC', ...options }).format(
+    new Date(date)
+  );
+}
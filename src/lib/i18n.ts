@@ -0,0 +1,120 @@
+/**
+ * Locales
+ * The homepage is exported once per locale under /en/ and /ar/; insights and
+ * case studies stay English-only. Safe to import from client code.
+ */
+
+export const LOCALES = ['en', 'ar'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export interface LocaleSettings {
+  /** Name of the language in that language, for the switcher */
+  label: string;
+  dir: 'ltr' | 'rtl';
+  /** BCP 47 tag for `lang` and `hreflang` */
+  hreflang: string;
+  /** Locale passed to Intl for numbers, currency amounts and dates */
+  intlLocale: string;
+  /** ISO 4217 code that currency figures are also shown in, see lib/format */
+  currency: string;
+}
+
+export const LOCALE_SETTINGS: Record<Locale, LocaleSettings> = {
+  en: { label: 'English', dir: 'ltr', hreflang: 'en', intlLocale: 'en-US', currency: 'USD' },
+  ar: { label: 'العربية', dir: 'rtl', hreflang: 'ar', intlLocale: 'ar', currency: 'SAR' },
+};
+
+/** Remembers a visitor's explicit language choice for the root redirect */
+export const LOCALE_STORAGE_KEY = 'preferred-locale';
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Site-relative path of a localized page, without base path
+ *
+ * @example
+ * ```ts
+ * getLocalePath('ar'); // "/ar/"
+ * getLocalePath('en', '#engagement'); // "/en/#engagement"
+ * ```
+ */
+export function getLocalePath(locale: Locale, hash: string = ''): string {
+  return `/${locale}/${hash}`;
+}
+
+/**
+ * Picks the best supported locale from browser language preferences
+ *
+ * @example
+ * ```ts
+ * matchLocale(['ar-EG', 'en-US']); // "ar"
+ * ```
+ */
+export function matchLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+type Dictionary = { readonly [key: string]: unknown };
+
+const isDictionary = (value: unknown): value is Dictionary =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Overlays translated strings on the default-locale content
+ * Objects merge key by key and arrays item by item, so a translation only
+ * lists what it changes and ids, links and settings come from the base.
+ * Array items without a base counterpart are ignored; lib/siteContent reports them.
+ *
+ * @example
+ * ```ts
+ * mergeDictionary({ title: 'Hi', items: [{ id: 1, label: 'One' }] }, { items: [{ label: 'واحد' }] });
+ * // { title: 'Hi', items: [{ id: 1, label: 'واحد' }] }
+ * ```
+ */
+export function mergeDictionary<T>(base: T, overlay: unknown): T {
+  if (overlay === undefined) return base;
+  if (Array.isArray(base) && Array.isArray(overlay)) {
+    return base.map((item, i) => mergeDictionary(item, overlay[i])) as T;
+  }
+  if (isDictionary(base) && isDictionary(overlay)) {
+    const merged: Record<string, unknown> = { ...base };
+    for (const key of Object.keys(base)) merged[key] = mergeDictionary(base[key], overlay[key]);
+    return merged as T;
+  }
+  return overlay as T;
+}
+
+/**
+ * Lists overlay entries that have no counterpart in the base content
+ *
+ * @returns `path.to.field message` lines; empty when the overlay fits the base
+ */
+export function findOverlayProblems(base: unknown, overlay: unknown, path: string[] = []): string[] {
+  const at = path.join('.') || '(root)';
+  if (overlay === undefined) return [];
+  if (Array.isArray(overlay)) {
+    if (!Array.isArray(base)) return [`${at} should not be a list`];
+    if (overlay.length > base.length) {
+      return [`${at} has ${overlay.length} items but the ${DEFAULT_LOCALE} content has ${base.length}`];
+    }
+    return overlay.flatMap((item, i) => findOverlayProblems(base[i], item, [...path, String(i)]));
+  }
+  if (isDictionary(overlay)) {
+    if (!isDictionary(base)) return [`${at} should not be an object`];
+    return Object.keys(overlay).flatMap((key) =>
+      key in base
+        ? findOverlayProblems(base[key], overlay[key], [...path, key])
+        : [`${[...path, key].join('.')} is not in the ${DEFAULT_LOCALE} content`]
+    );
+  }
+  return [];
+}
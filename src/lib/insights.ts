@@ -0,0 +1,322 @@
+/**
+ * Insights (blog) content loader
+ * Reads markdown and MDX posts with frontmatter from content/insights at build
+ * time, validates them against the BlogPost and BlogCategory types and derives
+ * reading time and listing order. Server-only: uses the filesystem.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import matter from 'gray-matter';
+import { compileMDX, type MDXRemoteProps } from 'next-mdx-remote/rsc';
+import remarkGfm from 'remark-gfm';
+import { z } from 'zod';
+import { formatDate } from './format';
+import { DEFAULT_LOCALE } from './i18n';
+import { CONTENT_STATUSES, filterPublished } from './publishing';
+import type { BlogCategory, BlogPost, BlogTag } from '../types/blog';
+
+const INSIGHTS_DIR = path.join(process.cwd(), 'content', 'insights');
+const POSTS_DIR = path.join(INSIGHTS_DIR, 'posts');
+
+/** Average adult silent reading speed used for readTime */
+export const WORDS_PER_MINUTE = 225;
+
+/** Posts per archive page; fills two rows of the three-column grid */
+export const POSTS_PER_PAGE = 6;
+
+// YAML parses unquoted dates into Date objects, so accept both forms
+const isoDate = z
+  .union([z.string(), z.date().transform((date) => date.toISOString().slice(0, 10))])
+  .refine((value) => !Number.isNaN(Date.parse(value)), { message: 'Expected an ISO 8601 date' });
+
+// Unlike isoDate this keeps the time of day, which scheduled posts may need
+const isoDateTime = z
+  .union([z.string(), z.date().transform((date) => date.toISOString())])
+  .refine((value) => !Number.isNaN(Date.parse(value)), { message: 'Expected an ISO 8601 date or date-time' });
+
+const slugPattern = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const authorSchema = z.object({
+  name: z.string().min(1),
+  role: z.string().min(1),
+  avatar: z.string().optional(),
+}) satisfies z.ZodType<BlogPost['author']>;
+
+const categorySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  slug: z.string().regex(slugPattern),
+  description: z.string().min(1),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, { message: 'Expected a hex color such as #9ACD32' }),
+}) satisfies z.ZodType<BlogCategory>;
+
+/**
+ * Frontmatter accepted in content/insights/posts/*.{md,mdx}
+ * `author` references content/insights/authors.json and `category` a category
+ * slug; `id`, `content` and `readTime` are derived from the file. `status`
+ * and `publishAt` keep drafts and scheduled posts out of production builds
+ */
+const frontmatterSchema = z.object({
+  title: z.string().min(1),
+  slug: z.string().regex(slugPattern).optional(),
+  excerpt: z.string().min(1),
+  author: z.string().min(1),
+  publishedAt: isoDate,
+  updatedAt: isoDate.optional(),
+  category: z.string().min(1),
+  tags: z.array(z.string().min(1)).default([]),
+  featured: z.boolean().default(false),
+  image: z.string().optional(),
+  status: z.enum(CONTENT_STATUSES).optional(),
+  publishAt: isoDateTime.optional(),
+}).refine((data) => data.status !== 'scheduled' || data.publishAt !== undefined, {
+  message: 'Scheduled posts need a publishAt date',
+  path: ['publishAt'],
+}) satisfies z.ZodType<Omit<BlogPost, 'id' | 'slug' | 'content' | 'readTime' | 'author'> & { slug?: string; author: string }>;
+
+/**
+ * Formats zod issues as `file: path.to.field message` lines
+ */
+const formatIssues = (source: string, error: z.ZodError) =>
+  error.issues.map((issue) => `${source}: ${issue.path.join('.') || '(root)'} ${issue.message}`).join('\n');
+
+function readJson<T>(file: string, schema: z.ZodType<T>): T {
+  const source = path.relative(process.cwd(), file);
+  const result = schema.safeParse(JSON.parse(fs.readFileSync(file, 'utf8')));
+  if (!result.success) {
+    throw new Error(`Invalid insights data\n${formatIssues(source, result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Estimates reading time from markdown source
+ *
+ * @param content - Markdown body
+ * @returns Whole minutes, at least 1
+ *
+ * @example
+ * ```ts
+ * calculateReadTime('word '.repeat(450)); // 2
+ * ```
+ */
+export function calculateReadTime(content: string): number {
+  const words = content
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/<\/?[A-Za-z][^>]*>/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[#>*_`~|-]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean).length;
+  return Math.max(1, Math.ceil(words / WORDS_PER_MINUTE));
+}
+
+/**
+ * Listing order: featured posts first, then newest first
+ */
+export function comparePosts(a: BlogPost, b: BlogPost): number {
+  if (a.featured !== b.featured) return a.featured ? -1 : 1;
+  return Date.parse(b.publishedAt) - Date.parse(a.publishedAt);
+}
+
+type PostFormat = 'md' | 'mdx';
+
+let cache: { posts: BlogPost[]; categories: BlogCategory[]; formats: Map<string, PostFormat> } | null = null;
+
+function loadInsights() {
+  if (cache) return cache;
+
+  const categories = readJson(path.join(INSIGHTS_DIR, 'categories.json'), z.array(categorySchema));
+  const authors = readJson(path.join(INSIGHTS_DIR, 'authors.json'), z.record(z.string(), authorSchema));
+  const categorySlugs = new Set(categories.map((category) => category.slug));
+
+  const errors: string[] = [];
+  const posts: BlogPost[] = [];
+  const formats = new Map<string, PostFormat>();
+
+  for (const file of fs.readdirSync(POSTS_DIR).filter((name) => /\.mdx?$/.test(name)).sort()) {
+    const source = path.relative(process.cwd(), path.join(POSTS_DIR, file));
+    const { data, content } = matter(fs.readFileSync(path.join(POSTS_DIR, file), 'utf8'));
+    const result = frontmatterSchema.safeParse(data);
+
+    if (!result.success) {
+      errors.push(formatIssues(source, result.error));
+      continue;
+    }
+
+    const { author, slug, ...frontmatter } = result.data;
+    if (!authors[author]) errors.push(`${source}: author unknown author "${author}"`);
+    if (!categorySlugs.has(frontmatter.category)) {
+      errors.push(`${source}: category unknown category "${frontmatter.category}"`);
+    }
+
+    const id = file.replace(/\.mdx?$/, '');
+    formats.set(id, file.endsWith('.mdx') ? 'mdx' : 'md');
+    posts.push({
+      ...frontmatter,
+      id,
+      slug: slug ?? id,
+      author: authors[author],
+      content: content.trim(),
+      readTime: calculateReadTime(content),
+    });
+  }
+
+  const seen = new Set<string>();
+  for (const post of posts) {
+    if (seen.has(post.slug)) errors.push(`content/insights/posts: duplicate slug "${post.slug}"`);
+    seen.add(post.slug);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid insights content\n${errors.join('\n')}`);
+  }
+
+  // Validated above whatever their status; only published posts reach the site
+  cache = { posts: filterPublished(posts).sort(comparePosts), categories, formats };
+  return cache;
+}
+
+/**
+ * All posts in listing order
+ */
+export function getAllPosts(): BlogPost[] {
+  return loadInsights().posts;
+}
+
+export function getPostBySlug(slug: string): BlogPost | undefined {
+  return getAllPosts().find((post) => post.slug === slug);
+}
+
+export function getAllCategories(): BlogCategory[] {
+  return loadInsights().categories;
+}
+
+export function getCategoryBySlug(slug: string): BlogCategory | undefined {
+  return getAllCategories().find((category) => category.slug === slug);
+}
+
+/**
+ * Posts filed under a category, in listing order
+ */
+export function getPostsByCategory(slug: string): BlogPost[] {
+  return getAllPosts().filter((post) => post.category === slug);
+}
+
+/**
+ * URL slug for a free-form tag
+ *
+ * @example
+ * ```ts
+ * slugifyTag('Financial Services'); // "financial-services"
+ * ```
+ */
+export function slugifyTag(tag: string): string {
+  return tag
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Every tag in use with its post count, most used first
+ * Tags that only differ in case or punctuation share a slug and are merged
+ * under the first spelling encountered
+ */
+export function getAllTags(): BlogTag[] {
+  const tags = new Map<string, BlogTag>();
+  for (const post of getAllPosts()) {
+    for (const slug of new Set(post.tags.map(slugifyTag))) {
+      const name = post.tags.find((tag) => slugifyTag(tag) === slug) ?? slug;
+      const existing = tags.get(slug);
+      tags.set(slug, existing ? { ...existing, count: existing.count + 1 } : { name, slug, count: 1 });
+    }
+  }
+  return Array.from(tags.values()).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+export function getTagBySlug(slug: string): BlogTag | undefined {
+  return getAllTags().find((tag) => tag.slug === slug);
+}
+
+/**
+ * Posts carrying a tag, in listing order
+ */
+export function getPostsByTag(slug: string): BlogPost[] {
+  return getAllPosts().filter((post) => post.tags.some((tag) => slugifyTag(tag) === slug));
+}
+
+/**
+ * Number of archive pages needed for a post count, at least 1
+ */
+export function getPageCount(total: number, perPage: number = POSTS_PER_PAGE): number {
+  return Math.max(1, Math.ceil(total / perPage));
+}
+
+/**
+ * Slices one archive page out of a post list
+ *
+ * @param posts - Posts in listing order
+ * @param page - 1-based page number
+ * @returns Posts on the page with the page position, or undefined when the page is out of range
+ *
+ * @example
+ * ```ts
+ * const result = paginatePosts(getPostsByTag('forecasting'), 2);
+ * ```
+ */
+export function paginatePosts(posts: BlogPost[], page: number, perPage: number = POSTS_PER_PAGE) {
+  const totalPages = getPageCount(posts.length, perPage);
+  if (!Number.isInteger(page) || page < 1 || page > totalPages) return undefined;
+  return {
+    posts: posts.slice((page - 1) * perPage, page * perPage),
+    page,
+    totalPages,
+  };
+}
+
+/**
+ * Compiles a post body at build time
+ * `.md` posts are compiled as plain markdown; `.mdx` posts may use the
+ * components in the registry, and referencing any other component fails the build
+ *
+ * @param post - Post to compile
+ * @param components - Components available to MDX posts
+ * @returns Rendered React content
+ * @throws Error when an MDX post uses a component missing from the registry
+ */
+export async function compilePostContent(
+  post: BlogPost,
+  components: NonNullable<MDXRemoteProps['components']>
+) {
+  const format = loadInsights().formats.get(post.id) ?? 'md';
+
+  if (format === 'mdx') {
+    const used = new Set(Array.from(post.content.matchAll(/<([A-Z][A-Za-z0-9]*)/g), (match) => match[1]));
+    const unknown = Array.from(used).filter((name) => !(name in components));
+    if (unknown.length > 0) {
+      throw new Error(
+        `content/insights/posts/${post.id}.mdx: unknown component ${unknown.map((name) => `<${name}>`).join(', ')}. ` +
+        `Available: ${Object.keys(components).join(', ')}`
+      );
+    }
+  }
+
+  const { content } = await compileMDX({
+    source: post.content,
+    components,
+    options: { mdxOptions: { format, remarkPlugins: [remarkGfm] } },
+  });
+  return content;
+}
+
+/**
+ * Formats a post date (e.g. "January 14, 2025")
+ * Insights are English-only, so dates use the default locale
+ */
+export function formatPostDate(date: string): string {
+  return formatDate(date, DEFAULT_LOCALE);
+}
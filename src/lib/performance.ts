@@ -5,6 +5,7 @@
 
 import React, { lazy, ComponentType, LazyExoticComponent, useState, useEffect, useCallback } from 'react';
 import dynamic from 'next/dynamic';
+import { analyticsEvents, trackEvent } from './analytics';
 
 /**
  * Enhanced lazy loading with error boundaries and loading states
@@ -169,14 +170,12 @@ export function trackPerformanceMetric(
     }
   }
 
-  // Send to analytics in production
-  if (typeof window !== 'undefined' && window.gtag) {
-    window.gtag('event', 'performance_metric', {
-      metric_name: metricName,
-      metric_value: value,
-      custom_parameter: threshold ? value > threshold : false
-    });
-  }
+  // Send to analytics once performance monitoring is consented to
+  trackEvent(analyticsEvents.PERFORMANCE_METRIC, {
+    metric_name: metricName,
+    metric_value: value,
+    custom_parameter: threshold ? value > threshold : false
+  });
 }
 
 /**
@@ -0,0 +1,80 @@
+/**
+ * Content publishing status
+ * Homepage sections, case studies and insights can be marked `draft` or
+ * `scheduled` with a `publishAt` date. Production exports drop drafts and
+ * anything scheduled after the build started, so scheduled content goes live
+ * with the first build after its date. Preview builds
+ * (NEXT_PUBLIC_CONTENT_PREVIEW=true) keep everything and show a ribbon.
+ * Safe to import from client code: both flags are inlined at build time.
+ */
+
+import { siteContent } from './constants';
+import { LOCALES, getLocalePath } from './i18n';
+import type { ContentStatus, Publishable } from '../types/publishing';
+
+export const CONTENT_STATUSES = ['draft', 'scheduled', 'published'] as const satisfies readonly ContentStatus[];
+
+export const HOME_SECTIONS = ['hero', 'challenge', 'framework', 'impact', 'engagement'] as const;
+
+export type HomeSection = (typeof HOME_SECTIONS)[number];
+
+/**
+ * Whether this build includes drafts and future-scheduled content
+ */
+export function isPreviewBuild(): boolean {
+  return process.env.NEXT_PUBLIC_CONTENT_PREVIEW === 'true';
+}
+
+/**
+ * Reference time for scheduled content
+ * Fixed when the build starts (see next.config.js) so server-rendered HTML and
+ * client components make the same decision
+ */
+export function getPublishingTime(): number {
+  const buildTime = Date.parse(process.env.NEXT_PUBLIC_CONTENT_BUILD_TIME ?? '');
+  return Number.isNaN(buildTime) ? Date.now() : buildTime;
+}
+
+/**
+ * Decides whether a record belongs in this build
+ *
+ * @param item - Record with optional status and publishAt
+ * @param now - Reference time, defaults to the build time
+ * @param preview - Include drafts and future content, defaults to the build flag
+ *
+ * @example
+ * ```ts
+ * isPublished({ status: 'scheduled', publishAt: '2030-01-01' }); // false outside preview builds
+ * ```
+ */
+export function isPublished(
+  item: Publishable,
+  now: number = getPublishingTime(),
+  preview: boolean = isPreviewBuild()
+): boolean {
+  if (preview) return true;
+  if (item.status === 'draft') return false;
+  return !item.publishAt || Date.parse(item.publishAt) <= now;
+}
+
+/**
+ * Records that belong in this build, in their original order
+ */
+export function filterPublished<T extends Publishable>(items: readonly T[]): T[] {
+  return items.filter((item) => isPublished(item));
+}
+
+export function isSectionPublished(section: HomeSection): boolean {
+  return isPublished(siteContent[section]);
+}
+
+/**
+ * Whether a link such as `#impact` or `/en/#impact` points at a section in this build
+ * Links to anything other than a homepage section are always kept
+ */
+export function isSectionLinkPublished(href: string): boolean {
+  const section = HOME_SECTIONS.find(
+    (id) => href === `#${id}` || LOCALES.some((locale) => href === getLocalePath(locale, `#${id}`))
+  );
+  return !section || isSectionPublished(section);
+}
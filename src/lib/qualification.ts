@@ -0,0 +1,215 @@
+/**
+ * Booking qualification questionnaire
+ * Defines the intake steps shown before a strategic session is confirmed,
+ * validates answers, persists drafts across reloads and maps answers to
+ * analytics properties
+ */
+
+import type { SchedulingEventParameters } from './analytics';
+import { getAllCaseStudies, getLocalizedCaseStudies } from './caseStudies';
+import { siteContent } from './constants';
+import type { SiteContent } from './siteContent';
+import { safeJsonParse } from './utils';
+
+/**
+ * Answers collected by the questionnaire
+ */
+export interface QualificationAnswers {
+  companySize: string;
+  industry: string;
+  dataStack: string[];
+  painPoint: string;
+}
+
+export type QualificationStepId = keyof QualificationAnswers;
+
+/**
+ * Single questionnaire step
+ */
+export interface QualificationStep {
+  id: QualificationStepId;
+  question: string;
+  hint?: string;
+  /** Whether several options may be selected */
+  multiple: boolean;
+  /** `value` is the default-locale text recorded in answers; `label` is shown when translated */
+  options: { value: string; label?: string; description?: string }[];
+}
+
+/**
+ * Draft persisted between page loads
+ */
+export interface QualificationDraft {
+  answers: QualificationAnswers;
+  stepIndex: number;
+}
+
+const { qualification } = siteContent.scheduling;
+
+const STORAGE_KEY = 'booking-qualification';
+
+export const emptyQualificationAnswers: QualificationAnswers = {
+  companySize: '',
+  industry: '',
+  dataStack: [],
+  painPoint: '',
+};
+
+/**
+ * Pairs default-locale values with their translations, which share list positions
+ */
+function withLabels(values: readonly string[], labels: readonly string[]): { value: string; label: string }[] {
+  return values.map((value, i) => ({ value, label: labels[i] ?? value }));
+}
+
+/**
+ * Questionnaire steps in display order, worded in the given content's locale
+ * Industries mirror the impact stories and pain points mirror the challenge
+ * cost breakdown, so answers line up with the rest of the site narrative.
+ * Option values stay in the default locale so analytics and bookings read
+ * the same whatever language the visitor used.
+ *
+ * @param content - Site content of the page locale
+ */
+export function getQualificationSteps(content: SiteContent = siteContent): QualificationStep[] {
+  const localized = content.scheduling.qualification;
+  const industries = withLabels(
+    getAllCaseStudies().map((caseStudy) => caseStudy.industry),
+    getLocalizedCaseStudies(content.impact).map((caseStudy) => caseStudy.industry)
+  ).filter((option, i, all) => all.findIndex((item) => item.value === option.value) === i);
+
+  return [
+    {
+      id: 'companySize',
+      question: localized.companySize.question,
+      multiple: false,
+      options: withLabels(qualification.companySize.options, localized.companySize.options),
+    },
+    {
+      id: 'industry',
+      question: localized.industry.question,
+      multiple: false,
+      options: [
+        ...industries,
+        { value: qualification.industry.otherOption, label: localized.industry.otherOption },
+      ],
+    },
+    {
+      id: 'dataStack',
+      question: localized.dataStack.question,
+      hint: localized.dataStack.hint,
+      multiple: true,
+      options: withLabels(qualification.dataStack.options, localized.dataStack.options),
+    },
+    {
+      id: 'painPoint',
+      question: localized.painPoint.question,
+      multiple: false,
+      options: siteContent.challenge.costBreakdown.items.map((item, i) => ({
+        value: item.title,
+        label: content.challenge.costBreakdown.items[i]?.title ?? item.title,
+        description: content.challenge.costBreakdown.items[i]?.description ?? item.description,
+      })),
+    },
+  ];
+}
+
+/**
+ * Questionnaire steps in the default locale
+ */
+export const qualificationSteps: QualificationStep[] = getQualificationSteps();
+
+/**
+ * Validates the answer for one step
+ *
+ * @param step - Step to validate
+ * @param answers - Current answers
+ * @returns Error message, or null when the answer is valid
+ */
+export function validateQualificationStep(step: QualificationStep, answers: QualificationAnswers): string | null {
+  const allowed = new Set(step.options.map((option) => option.value));
+  const value = answers[step.id];
+  const selected = Array.isArray(value) ? value : value ? [value] : [];
+
+  if (selected.length === 0 || !selected.every((item) => allowed.has(item))) {
+    return qualification.requiredError;
+  }
+  return null;
+}
+
+/**
+ * Checks that every step has a valid answer
+ */
+export function isQualificationComplete(answers: QualificationAnswers): boolean {
+  return qualificationSteps.every((step) => validateQualificationStep(step, answers) === null);
+}
+
+/**
+ * Restores a saved questionnaire draft
+ * Answers that no longer match the configured options are dropped
+ */
+export function loadQualificationDraft(): QualificationDraft {
+  const fallback = { answers: emptyQualificationAnswers, stepIndex: 0 };
+  if (typeof window === 'undefined') return fallback;
+
+  const draft = safeJsonParse<Partial<QualificationDraft>>(localStorage.getItem(STORAGE_KEY), {});
+  const answers = { ...emptyQualificationAnswers };
+
+  for (const step of qualificationSteps) {
+    const saved = draft.answers?.[step.id];
+    const candidate = { ...answers, [step.id]: step.multiple ? (Array.isArray(saved) ? saved : []) : saved ?? '' };
+    if (validateQualificationStep(step, candidate) === null) {
+      Object.assign(answers, { [step.id]: candidate[step.id] });
+    }
+  }
+
+  const stepIndex = Math.min(Math.max(Number(draft.stepIndex) || 0, 0), qualificationSteps.length - 1);
+  return { answers, stepIndex };
+}
+
+/**
+ * Persists the questionnaire draft so it survives a page reload
+ */
+export function saveQualificationDraft(draft: QualificationDraft): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(draft));
+  } catch (error) {
+    console.warn('Failed to save qualification draft:', error);
+  }
+}
+
+/**
+ * Removes the saved draft once a booking is confirmed
+ */
+export function clearQualificationDraft(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * Maps answers to flat analytics event properties
+ *
+ * @example
+ * ```ts
+ * trackSchedulingEvent('scheduled', { ...toQualificationAnalytics(answers) });
+ * ```
+ */
+export function toQualificationAnalytics(
+  answers: QualificationAnswers
+): Required<
+  Pick<
+    SchedulingEventParameters,
+    | 'qualification_company_size'
+    | 'qualification_industry'
+    | 'qualification_data_stack'
+    | 'qualification_data_stack_count'
+    | 'qualification_pain_point'
+  >
+> {
+  return {
+    qualification_company_size: answers.companySize,
+    qualification_industry: answers.industry,
+    qualification_data_stack: answers.dataStack.join(', '),
+    qualification_data_stack_count: answers.dataStack.length,
+    qualification_pain_point: answers.painPoint,
+  };
+}
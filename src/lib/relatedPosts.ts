@@ -0,0 +1,177 @@
+/**
+ * Related insights
+ * Ranks every other post against each post by weighted tag overlap, category
+ * match, TF-IDF similarity of the body and recency. The index is built once
+ * per build from lib/insights, so post pages only look results up.
+ */
+
+import { getAllPosts, getPostBySlug, slugifyTag } from './insights';
+import type { BlogPost } from '../types/blog';
+
+/**
+ * Contribution of each signal to the final score; weights sum to 1
+ */
+export const RELATED_POST_WEIGHTS = {
+  tags: 0.35,
+  category: 0.2,
+  content: 0.35,
+  recency: 0.1,
+} as const;
+
+/** Age at which a post's recency score halves */
+const RECENCY_HALF_LIFE_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STOP_WORDS = new Set(
+  (
+    'about after again also because been before being between both but can could does doing down during each ' +
+    'from further have having here into itself just more most much must only other over same should some such ' +
+    'than that their them then there these they this those through under until very were what when where which ' +
+    'while will with would your yours and are for has its not our the was you all any how who why may'
+  ).split(' ')
+);
+
+export interface RelatedPost {
+  slug: string;
+  /** Weighted score between 0 and 1 */
+  score: number;
+  /** Per-signal scores before weighting, useful when tuning */
+  signals: Record<keyof typeof RELATED_POST_WEIGHTS, number>;
+}
+
+/**
+ * Splits markdown into lowercase terms, dropping code, JSX tags, link targets and stop words
+ */
+export function tokenize(content: string): string[] {
+  return content
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/<\/?[A-Za-z][^>]*>/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term.length > 2 && !/^\d+$/.test(term) && !STOP_WORDS.has(term));
+}
+
+type Vector = Map<string, number>;
+
+/**
+ * Builds L2-normalised TF-IDF vectors for a set of documents
+ */
+function tfidfVectors(documents: string[][]): Vector[] {
+  const documentFrequency = new Map<string, number>();
+  for (const terms of documents) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return documents.map((terms) => {
+    const counts = new Map<string, number>();
+    for (const term of terms) counts.set(term, (counts.get(term) ?? 0) + 1);
+
+    const vector: Vector = new Map();
+    let norm = 0;
+    counts.forEach((count, term) => {
+      // Smoothed IDF keeps terms shared by every post from zeroing out
+      const weight = (count / terms.length) * Math.log(1 + documents.length / (documentFrequency.get(term) ?? 1));
+      vector.set(term, weight);
+      norm += weight * weight;
+    });
+
+    norm = Math.sqrt(norm);
+    if (norm > 0) vector.forEach((weight, term) => vector.set(term, weight / norm));
+    return vector;
+  });
+}
+
+function cosine(a: Vector, b: Vector): number {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((weight, term) => {
+    dot += weight * (large.get(term) ?? 0);
+  });
+  return dot;
+}
+
+/**
+ * Weighted Jaccard overlap of two tag sets; rarer tags count for more
+ */
+function tagOverlap(a: Set<string>, b: Set<string>, tagWeight: (tag: string) => number): number {
+  let shared = 0;
+  let union = 0;
+  new Set([...a, ...b]).forEach((tag) => {
+    const weight = tagWeight(tag);
+    union += weight;
+    if (a.has(tag) && b.has(tag)) shared += weight;
+  });
+  return union === 0 ? 0 : shared / union;
+}
+
+/**
+ * Ranks related posts for every post
+ *
+ * @param posts - Posts to index
+ * @param limit - Related posts kept per slug
+ * @returns Related posts per slug, best match first
+ *
+ * @example
+ * ```ts
+ * const index = buildRelatedPostIndex(getAllPosts());
+ * index['leading-indicators'][0].slug;
+ * ```
+ */
+export function buildRelatedPostIndex(posts: BlogPost[], limit: number = 3): Record<string, RelatedPost[]> {
+  const vectors = tfidfVectors(posts.map((post) => tokenize(`${post.title} ${post.excerpt} ${post.content}`)));
+  const tagSets = posts.map((post) => new Set(post.tags.map(slugifyTag)));
+
+  const tagFrequency = new Map<string, number>();
+  tagSets.forEach((tags) => tags.forEach((tag) => tagFrequency.set(tag, (tagFrequency.get(tag) ?? 0) + 1)));
+  const tagWeight = (tag: string) => Math.log(1 + posts.length / (tagFrequency.get(tag) ?? 1));
+
+  const newest = Math.max(...posts.map((post) => Date.parse(post.publishedAt)));
+  const recency = posts.map((post) => 0.5 ** ((newest - Date.parse(post.publishedAt)) / DAY_MS / RECENCY_HALF_LIFE_DAYS));
+
+  const index: Record<string, RelatedPost[]> = {};
+  posts.forEach((post, i) => {
+    index[post.slug] = posts
+      .map((candidate, j): RelatedPost | null => {
+        if (i === j) return null;
+        const signals = {
+          tags: tagOverlap(tagSets[i], tagSets[j], tagWeight),
+          category: post.category === candidate.category ? 1 : 0,
+          content: cosine(vectors[i], vectors[j]),
+          recency: recency[j],
+        };
+        const score = (Object.keys(RELATED_POST_WEIGHTS) as (keyof typeof RELATED_POST_WEIGHTS)[]).reduce(
+          (total, signal) => total + RELATED_POST_WEIGHTS[signal] * signals[signal],
+          0
+        );
+        return { slug: candidate.slug, score, signals };
+      })
+      .filter((related): related is RelatedPost => related !== null)
+      .sort((a, b) => b.score - a.score || a.slug.localeCompare(b.slug))
+      .slice(0, limit);
+  });
+
+  return index;
+}
+
+let cache: Record<string, RelatedPost[]> | null = null;
+
+/**
+ * Related-post index for every published insight, built once per build
+ */
+export function getRelatedPostIndex(): Record<string, RelatedPost[]> {
+  if (!cache) cache = buildRelatedPostIndex(getAllPosts());
+  return cache;
+}
+
+/**
+ * Posts to recommend after the given post, best match first
+ */
+export function getRelatedPosts(slug: string): BlogPost[] {
+  return (getRelatedPostIndex()[slug] ?? [])
+    .map((related) => getPostBySlug(related.slug))
+    .filter((post): post is BlogPost => post !== undefined);
+}
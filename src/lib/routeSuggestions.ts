@@ -0,0 +1,83 @@
+/**
+ * Route suggestions for the 404 and error pages
+ * Matches the words of a requested path against the pages and homepage anchors
+ * in the search index, so "/insigths/data-mesh/" can point at the right article.
+ * Safe to import from client code.
+ */
+
+import { caseStudiesContent, insightsContent, privacyPolicyContent, siteContent } from './constants';
+import { LOCALES, LOCALE_SETTINGS, getLocalePath } from './i18n';
+import { matchTerm, tokenizeSearchText } from './search';
+
+/**
+ * Known destination; search documents have the same shape
+ */
+export interface RouteSuggestion {
+  title: string;
+  /** Site-relative link, without base path */
+  href: string;
+}
+
+/**
+ * Landing pages that have no search document of their own
+ */
+export const STATIC_ROUTES: readonly RouteSuggestion[] = [
+  ...LOCALES.map((locale) => ({
+    title: `${siteContent.navigation.logo} (${LOCALE_SETTINGS[locale].label})`,
+    href: getLocalePath(locale),
+  })),
+  { title: insightsContent.title, href: '/insights/' },
+  { title: caseStudiesContent.title, href: '/case-studies/' },
+  { title: privacyPolicyContent.title, href: siteContent.footer.privacyLink },
+];
+
+/** Average closeness a route needs before it is suggested */
+const MIN_SCORE = 0.5;
+
+// Search terms plus bare numbers, which identify case studies
+const toTerms = (text: string) => new Set([...tokenizeSearchText(text), ...(text.match(/\d+/g) ?? [])]);
+
+/**
+ * Ranks known routes by how well they match a requested path
+ * Each word of the path is scored against the words of a route's href and
+ * title: exact words count 1, prefixes 0.8 and typos 0.5. A route's score is
+ * the average over the path's words.
+ *
+ * @param path - Requested path without base path
+ * @param routes - Candidates, e.g. STATIC_ROUTES plus the search index documents
+ * @param limit - Maximum number of suggestions
+ * @returns Best matches first, one per href; empty when nothing is close
+ *
+ * @example
+ * ```ts
+ * suggestRoutes('/insigths/', STATIC_ROUTES); // [{ title: 'Insights', href: '/insights/' }]
+ * ```
+ */
+export function suggestRoutes(
+  path: string,
+  routes: readonly RouteSuggestion[],
+  limit: number = 3
+): RouteSuggestion[] {
+  const pathTerms = Array.from(toTerms(path));
+  if (pathTerms.length === 0) return [];
+
+  const best = new Map<string, { route: RouteSuggestion; score: number }>();
+  for (const route of routes) {
+    const routeTerms = Array.from(new Set([...toTerms(route.href), ...toTerms(route.title)]));
+    const score =
+      pathTerms.reduce(
+        (sum, pathTerm) => sum + Math.max(0, ...routeTerms.map((routeTerm) => matchTerm(pathTerm, routeTerm))),
+        0
+      ) / pathTerms.length;
+
+    const current = best.get(route.href);
+    if (score >= MIN_SCORE && (!current || score > current.score)) {
+      best.set(route.href, { route: { title: route.title, href: route.href }, score });
+    }
+  }
+
+  return Array.from(best.values())
+    .sort((a, b) => b.score - a.score || a.route.href.length - b.route.href.length)
+    .slice(0, limit)
+    .map(({ route }) => route);
+}
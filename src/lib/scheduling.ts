@@ -0,0 +1,390 @@
+/**
+ * Availability-driven booking engine for strategic sessions
+ * Computes open meeting slots from working hours, buffers and blackout dates,
+ * and loads busy time from a pluggable availability source
+ */
+
+import { siteContent } from './constants';
+import { DEFAULT_LOCALE, LOCALE_SETTINGS, type Locale } from './i18n';
+import { generateId } from './utils';
+import type { QualificationAnswers } from './qualification';
+import type { SiteContent } from './siteContent';
+import { formatDateKey, getZonedDateTime, toDateKey, zonedTimeToUtc } from './timezone';
+import staticAvailability from '../../content/scheduling/availability.json';
+
+/**
+ * Working window for one day of the week, in the host time zone
+ */
+export interface WorkingHours {
+  /** Day of the week (0 = Sunday, 6 = Saturday) */
+  weekday: number;
+  /** Opening time as HH:mm */
+  start: string;
+  /** Closing time as HH:mm */
+  end: string;
+}
+
+/**
+ * Rules that determine when strategic sessions can be booked
+ */
+export interface AvailabilityRules {
+  hostTimeZone: string;
+  meetingLengthMinutes: number;
+  slotIntervalMinutes: number;
+  /** Minimum gap kept free before and after existing commitments */
+  bufferMinutes: number;
+  minimumNoticeHours: number;
+  bookingHorizonDays: number;
+  workingHours: readonly WorkingHours[];
+  /** Host-zone dates (YYYY-MM-DD) with no availability at all */
+  blackoutDates: readonly string[];
+}
+
+/**
+ * Time already committed on the host calendar (ISO 8601 instants)
+ */
+export interface BusyInterval {
+  start: string;
+  end: string;
+}
+
+/**
+ * Busy time and extra blackout dates reported by an availability source
+ */
+export interface AvailabilitySnapshot {
+  busy: BusyInterval[];
+  blackoutDates: string[];
+  generatedAt?: string;
+}
+
+/**
+ * Bookable meeting slot (ISO 8601 instants)
+ */
+export interface TimeSlot {
+  start: string;
+  end: string;
+}
+
+/**
+ * Record produced when a visitor confirms a slot
+ */
+export interface BookingRecord {
+  id: string;
+  slot: TimeSlot;
+  hostTimeZone: string;
+  /** Zone the visitor booked from, used to render confirmations */
+  visitorTimeZone: string;
+  meetingTitle: string;
+  meetingLengthMinutes: number;
+  createdAt: string;
+  status: 'confirmed' | 'cancelled';
+  /** Intake answers collected before confirmation */
+  qualification?: QualificationAnswers;
+  /** Signed token for the /booking/[token] management page, issued by the booking service */
+  manageToken?: string;
+}
+
+/**
+ * Pluggable provider of host calendar availability
+ */
+export interface AvailabilitySource {
+  /** Identifier used in analytics and debugging */
+  id: string;
+  /** Loads busy time overlapping the requested range */
+  load(range: { start: Date; end: Date }): Promise<AvailabilitySnapshot>;
+  /** Persists a booking; sources without persistence accept it as-is */
+  submitBooking(record: BookingRecord): Promise<BookingRecord>;
+}
+
+const { scheduling } = siteContent;
+
+/**
+ * Availability rules configured in site content
+ */
+export const availabilityRules: AvailabilityRules = {
+  ...scheduling.availability,
+  meetingLengthMinutes: scheduling.meetingLengthMinutes,
+};
+
+const MINUTE = 60 * 1000;
+
+function parseClock(value: string): { hour: number; minute: number } {
+  const [hour, minute] = value.split(':').map(Number);
+  return { hour, minute };
+}
+
+/**
+ * Computes every open slot between two instants
+ * A slot is open when it falls inside working hours, is not on a blackout date,
+ * respects the notice period and booking horizon, and does not come within
+ * the buffer of any busy interval
+ *
+ * @param rules - Availability rules for the host
+ * @param snapshot - Busy time and blackout dates from the availability source
+ * @param range - Instants bounding the search
+ * @param now - Reference time for notice and horizon checks
+ * @returns Open slots in chronological order
+ *
+ * @example
+ * ```ts
+ * const slots = computeAvailableSlots(availabilityRules, snapshot, getMonthRange(2025, 1, tz));
+ * ```
+ */
+export function computeAvailableSlots(
+  rules: AvailabilityRules,
+  snapshot: AvailabilitySnapshot,
+  range: { start: Date; end: Date },
+  now: Date = new Date()
+): TimeSlot[] {
+  const blackouts = new Set([...rules.blackoutDates, ...snapshot.blackoutDates]);
+  const busy = snapshot.busy.map((interval) => ({
+    start: new Date(interval.start).getTime() - rules.bufferMinutes * MINUTE,
+    end: new Date(interval.end).getTime() + rules.bufferMinutes * MINUTE,
+  }));
+
+  const earliest = Math.max(range.start.getTime(), now.getTime() + rules.minimumNoticeHours * 60 * MINUTE);
+  const latest = Math.min(range.end.getTime(), now.getTime() + rules.bookingHorizonDays * 24 * 60 * MINUTE);
+  const slots: TimeSlot[] = [];
+
+  if (earliest >= latest) return slots;
+
+  // Walk host-zone calendar dates; UTC date arithmetic keeps the walk DST-free
+  const first = getZonedDateTime(new Date(earliest), rules.hostTimeZone);
+  const last = getZonedDateTime(new Date(latest), rules.hostTimeZone);
+  const cursor = new Date(Date.UTC(first.year, first.month - 1, first.day));
+  const stop = Date.UTC(last.year, last.month - 1, last.day);
+
+  for (; cursor.getTime() <= stop; cursor.setUTCDate(cursor.getUTCDate() + 1)) {
+    const year = cursor.getUTCFullYear();
+    const month = cursor.getUTCMonth() + 1;
+    const day = cursor.getUTCDate();
+    if (blackouts.has(formatDateKey(year, month, day))) continue;
+
+    const windows = rules.workingHours.filter((hours) => hours.weekday === cursor.getUTCDay());
+    for (const window of windows) {
+      const open = parseClock(window.start);
+      const close = parseClock(window.end);
+      const closeMinutes = close.hour * 60 + close.minute;
+
+      for (
+        let minutes = open.hour * 60 + open.minute;
+        minutes + rules.meetingLengthMinutes <= closeMinutes;
+        minutes += rules.slotIntervalMinutes
+      ) {
+        const start = zonedTimeToUtc(
+          { year, month, day, hour: Math.floor(minutes / 60), minute: minutes % 60 },
+          rules.hostTimeZone
+        ).getTime();
+        const end = start + rules.meetingLengthMinutes * MINUTE;
+
+        if (start < earliest || end > latest) continue;
+        if (busy.some((interval) => start < interval.end && end > interval.start)) continue;
+
+        slots.push({ start: new Date(start).toISOString(), end: new Date(end).toISOString() });
+      }
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Groups slots by their calendar date in a time zone
+ *
+ * @param slots - Slots to group
+ * @param timeZone - IANA time zone whose calendar dates are used as keys
+ * @returns Map of YYYY-MM-DD keys to the slots starting on that date
+ */
+export function groupSlotsByDate(slots: TimeSlot[], timeZone: string): Map<string, TimeSlot[]> {
+  const groups = new Map<string, TimeSlot[]>();
+  for (const slot of slots) {
+    const key = toDateKey(new Date(slot.start), timeZone);
+    const group = groups.get(key);
+    if (group) {
+      group.push(slot);
+    } else {
+      groups.set(key, [slot]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Returns the instants bounding a calendar month in a time zone
+ *
+ * @param year - Full year
+ * @param month - Month of the year (1-12)
+ * @param timeZone - IANA time zone name
+ */
+export function getMonthRange(year: number, month: number, timeZone: string): { start: Date; end: Date } {
+  const next = month === 12 ? { year: year + 1, month: 1 } : { year, month: month + 1 };
+  return {
+    start: zonedTimeToUtc({ year, month, day: 1, hour: 0, minute: 0 }, timeZone),
+    end: zonedTimeToUtc({ ...next, day: 1, hour: 0, minute: 0 }, timeZone),
+  };
+}
+
+/**
+ * Formats a slot as a clock range in a time zone
+ *
+ * @example
+ * ```ts
+ * formatSlotRange(slot, 'America/New_York'); // "9:00 – 10:00 AM"
+ * formatSlotRange(slot, 'America/New_York', 'ar'); // "9:00–10:00 ص"
+ * ```
+ */
+export function formatSlotRange(slot: TimeSlot, timeZone: string, locale: Locale = DEFAULT_LOCALE): string {
+  const formatter = new Intl.DateTimeFormat(LOCALE_SETTINGS[locale].intlLocale, {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+  return formatter.formatRange(new Date(slot.start), new Date(slot.end));
+}
+
+/**
+ * Formats the start date of a slot in a time zone
+ *
+ * @example
+ * ```ts
+ * formatSlotDate(slot, 'America/New_York'); // "Wednesday, January 15, 2025"
+ * ```
+ */
+export function formatSlotDate(slot: TimeSlot, timeZone: string, locale: Locale = DEFAULT_LOCALE): string {
+  return new Intl.DateTimeFormat(LOCALE_SETTINGS[locale].intlLocale, {
+    timeZone,
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  }).format(new Date(slot.start));
+}
+
+/**
+ * Creates the booking record for a confirmed slot
+ *
+ * @param slot - Slot chosen by the visitor
+ * @param visitorTimeZone - IANA time zone the visitor selected
+ * @param qualification - Intake answers sent along with the booking
+ * @param content - Site content of the page locale, for the meeting title
+ * @param rules - Availability rules the slot was computed from
+ * @returns Confirmed booking record
+ */
+export function createBookingRecord(
+  slot: TimeSlot,
+  visitorTimeZone: string,
+  qualification?: QualificationAnswers,
+  content: SiteContent = siteContent,
+  rules: AvailabilityRules = availabilityRules
+): BookingRecord {
+  return {
+    id: `auxo-${generateId(10)}`,
+    slot,
+    hostTimeZone: rules.hostTimeZone,
+    visitorTimeZone,
+    meetingTitle: content.scheduling.meetingTitle,
+    meetingLengthMinutes: rules.meetingLengthMinutes,
+    createdAt: new Date().toISOString(),
+    status: 'confirmed',
+    ...(qualification && { qualification }),
+  };
+}
+
+/**
+ * Validates an availability payload received from a source
+ *
+ * @param data - Untrusted payload
+ * @returns Normalised snapshot
+ * @throws Error when the payload does not match the snapshot shape
+ */
+export function parseAvailabilitySnapshot(data: unknown): AvailabilitySnapshot {
+  const payload = data as Partial<AvailabilitySnapshot> | null;
+  if (!payload || !Array.isArray(payload.busy)) {
+    throw new Error('Availability payload is missing a "busy" array');
+  }
+
+  const busy = payload.busy.map((interval, index) => {
+    if (
+      !interval ||
+      Number.isNaN(Date.parse(interval.start)) ||
+      Number.isNaN(Date.parse(interval.end))
+    ) {
+      throw new Error(`Availability payload has an invalid busy interval at index ${index}`);
+    }
+    return { start: interval.start, end: interval.end };
+  });
+
+  const blackoutDates = Array.isArray(payload.blackoutDates)
+    ? payload.blackoutDates.filter((date): date is string => /^\d{4}-\d{2}-\d{2}$/.test(String(date)))
+    : [];
+
+  return { busy, blackoutDates, generatedAt: payload.generatedAt };
+}
+
+/**
+ * Availability source backed by a JSON snapshot bundled at build time
+ *
+ * @param snapshot - Snapshot to serve (defaults to content/scheduling/availability.json)
+ */
+export function createStaticAvailabilitySource(
+  snapshot: unknown = staticAvailability
+): AvailabilitySource {
+  const parsed = parseAvailabilitySnapshot(snapshot);
+  const booked: BusyInterval[] = [];
+
+  return {
+    id: 'static',
+    load: async ({ start, end }) => ({
+      ...parsed,
+      busy: [...parsed.busy, ...booked].filter(
+        (interval) => Date.parse(interval.end) > start.getTime() && Date.parse(interval.start) < end.getTime()
+      ),
+    }),
+    submitBooking: async (record) => {
+      booked.push(record.slot);
+      return record;
+    },
+  };
+}
+
+/**
+ * Availability source backed by an HTTP service
+ * Expects `GET {baseUrl}/availability?start&end` and `POST {baseUrl}/bookings`,
+ * as served by `npm run scheduling:stand-in`
+ *
+ * @param baseUrl - Service origin, without trailing slash
+ */
+export function createHttpAvailabilitySource(baseUrl: string): AvailabilitySource {
+  return {
+    id: 'http',
+    load: async ({ start, end }) => {
+      const params = new URLSearchParams({ start: start.toISOString(), end: end.toISOString() });
+      const response = await fetch(`${baseUrl}/availability?${params}`);
+      if (!response.ok) {
+        throw new Error(`Availability request failed with status ${response.status}`);
+      }
+      return parseAvailabilitySnapshot(await response.json());
+    },
+    submitBooking: async (record) => {
+      const response = await fetch(`${baseUrl}/bookings`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(record),
+      });
+      if (!response.ok) {
+        throw new Error(`Booking request failed with status ${response.status}`);
+      }
+      return (await response.json()) as BookingRecord;
+    },
+  };
+}
+
+/**
+ * Picks the availability source for this build
+ * Uses the HTTP service when NEXT_PUBLIC_AVAILABILITY_URL is set, otherwise the
+ * bundled static snapshot
+ */
+export function resolveAvailabilitySource(): AvailabilitySource {
+  const url = process.env.NEXT_PUBLIC_AVAILABILITY_URL;
+  return url ? createHttpAvailabilitySource(url.replace(/\/$/, '')) : createStaticAvailabilitySource();
+}
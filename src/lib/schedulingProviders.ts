@@ -0,0 +1,154 @@
+/**
+ * Scheduling provider abstraction
+ * Lets SchedulingEmbed render either the native booking UI or an embedded
+ * third-party widget, and normalises the widget's postMessage events
+ */
+
+import type { SchedulingEventParameters } from './analytics';
+
+/**
+ * Providers SchedulingEmbed can render
+ */
+export type SchedulingProviderId = 'native' | 'calendly' | 'calcom';
+
+/**
+ * Provider selected for this build
+ */
+export interface SchedulingProviderConfig {
+  id: SchedulingProviderId;
+  /** Public booking page URL for embedded providers */
+  url?: string;
+}
+
+/**
+ * Normalised message emitted by an embedded scheduling widget
+ */
+export type SchedulingProviderMessage =
+  | { type: 'open' | 'scheduled'; details: SchedulingEventParameters }
+  | { type: 'resize'; height: number };
+
+/**
+ * Adapter for a third-party scheduling widget rendered in an iframe
+ */
+export interface EmbeddedSchedulingProvider {
+  id: Exclude<SchedulingProviderId, 'native'>;
+  /** Origins allowed to post messages in addition to the booking URL's origin */
+  origins: string[];
+  /** Builds the iframe URL for a booking page */
+  buildEmbedUrl(url: string, hostDomain: string): string;
+  /** Translates a postMessage payload into a normalised message */
+  parseMessage(data: unknown): SchedulingProviderMessage | null;
+}
+
+const calendly: EmbeddedSchedulingProvider = {
+  id: 'calendly',
+  origins: ['https://calendly.com'],
+  buildEmbedUrl: (url, hostDomain) => {
+    const embedUrl = new URL(url);
+    // Calendly only posts events when embed_domain is present
+    embedUrl.searchParams.set('embed_domain', hostDomain);
+    embedUrl.searchParams.set('embed_type', 'Inline');
+    embedUrl.searchParams.set('hide_gdpr_banner', '1');
+    embedUrl.searchParams.set('background_color', '0a3a4a');
+    embedUrl.searchParams.set('text_color', 'ffffff');
+    embedUrl.searchParams.set('primary_color', '9acd32');
+    return embedUrl.toString();
+  },
+  parseMessage: (data) => {
+    const message = data as { event?: string; payload?: Record<string, unknown> } | null;
+    if (!message || typeof message.event !== 'string' || !message.event.startsWith('calendly.')) return null;
+
+    switch (message.event) {
+      case 'calendly.profile_page_viewed':
+      case 'calendly.event_type_viewed':
+        return { type: 'open', details: { provider: 'calendly', provider_event: message.event } };
+      case 'calendly.event_scheduled': {
+        const payload = message.payload as { event?: { uri?: string } } | undefined;
+        return {
+          type: 'scheduled',
+          details: { provider: 'calendly', provider_event: message.event, event_uri: payload?.event?.uri },
+        };
+      }
+      case 'calendly.page_height': {
+        const height = parseInt(String(message.payload?.height ?? ''), 10);
+        return Number.isFinite(height) ? { type: 'resize', height } : null;
+      }
+      default:
+        return null;
+    }
+  },
+};
+
+const calcom: EmbeddedSchedulingProvider = {
+  id: 'calcom',
+  origins: ['https://cal.com', 'https://app.cal.com'],
+  buildEmbedUrl: (url) => {
+    const embedUrl = new URL(url);
+    embedUrl.searchParams.set('embed', 'auxo');
+    embedUrl.searchParams.set('embedType', 'inline');
+    embedUrl.searchParams.set('theme', 'dark');
+    return embedUrl.toString();
+  },
+  parseMessage: (data) => {
+    const message = data as { originator?: string; type?: string; data?: { uid?: string; iframeHeight?: unknown } } | null;
+    if (!message || message.originator !== 'CAL' || typeof message.type !== 'string') return null;
+
+    switch (message.type) {
+      case 'linkReady':
+        return { type: 'open', details: { provider: 'calcom', provider_event: message.type } };
+      case 'bookingSuccessful':
+      case 'bookingSuccessfulV2':
+        return {
+          type: 'scheduled',
+          details: { provider: 'calcom', provider_event: message.type, booking_uid: message.data?.uid },
+        };
+      case '__dimensionChanged': {
+        const height = Number(message.data?.iframeHeight);
+        return Number.isFinite(height) ? { type: 'resize', height } : null;
+      }
+      default:
+        return null;
+    }
+  },
+};
+
+/**
+ * Registry of embeddable scheduling providers
+ */
+export const embeddedSchedulingProviders: Record<EmbeddedSchedulingProvider['id'], EmbeddedSchedulingProvider> = {
+  calendly,
+  calcom,
+};
+
+/**
+ * Resolves the scheduling provider from build configuration
+ * NEXT_PUBLIC_SCHEDULING_PROVIDER selects "calendly" or "calcom" and
+ * NEXT_PUBLIC_SCHEDULING_URL points at the booking page; anything else falls
+ * back to the native booking UI
+ */
+export function resolveSchedulingProvider(): SchedulingProviderConfig {
+  const id = process.env.NEXT_PUBLIC_SCHEDULING_PROVIDER;
+  const url = process.env.NEXT_PUBLIC_SCHEDULING_URL;
+
+  if ((id === 'calendly' || id === 'calcom') && url) {
+    try {
+      new URL(url);
+      return { id, url };
+    } catch {
+      console.warn(`Invalid NEXT_PUBLIC_SCHEDULING_URL "${url}", falling back to native scheduling`);
+    }
+  }
+
+  return { id: 'native' };
+}
+
+/**
+ * Checks whether a postMessage origin belongs to an embedded provider
+ *
+ * @param provider - Provider adapter
+ * @param url - Configured booking page URL (self-hosted instances post from its origin)
+ * @param origin - MessageEvent origin
+ */
+export function isTrustedProviderOrigin(provider: EmbeddedSchedulingProvider, url: string, origin: string): boolean {
+  return origin === new URL(url).origin || provider.origins.includes(origin);
+}
@@ -0,0 +1,282 @@
+/**
+ * Site search
+ * One inverted index per locale is built at export time (see lib/searchIndex)
+ * and served as static JSON; the browser loads the page locale's on demand and ranks documents with
+ * prefix and typo-tolerant term matching. Safe to import from client code.
+ */
+
+import { getLocalePath, type Locale } from './i18n';
+import { withBasePath } from './urls';
+
+export type SearchDocumentType = 'section' | 'insight' | 'case-study';
+
+/**
+ * Searchable page or page section
+ */
+export interface SearchDocument {
+  id: string;
+  type: SearchDocumentType;
+  title: string;
+  /** Site-relative link, without base path */
+  href: string;
+  /** Short label shown under the title, e.g. a category name */
+  context?: string;
+  /** Plain text used for snippets */
+  text: string;
+  /** Extra terms that should rank like the title (tags, industries) */
+  keywords?: string[];
+}
+
+/**
+ * Serialized index: documents plus postings of `[documentIndex, weight]` per term
+ */
+export interface SearchIndex {
+  version: 1;
+  documents: SearchDocument[];
+  terms: Record<string, [number, number][]>;
+}
+
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  title: SnippetSegment[];
+  snippet: SnippetSegment[];
+}
+
+/**
+ * Path of a locale's exported index, without base path
+ *
+ * @example
+ * ```ts
+ * getSearchIndexPath('ar'); // "/ar/search-index.json"
+ * ```
+ */
+export function getSearchIndexPath(locale: Locale): string {
+  return `${getLocalePath(locale)}search-index.json`;
+}
+
+/**
+ * Query string parameter advertised by the WebSite SearchAction schema
+ */
+export const SEARCH_QUERY_PARAM = 'q';
+
+const FIELD_WEIGHTS = { title: 5, keywords: 3, text: 1 } as const;
+
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Lowercases, strips accents and splits text into search terms
+ *
+ * @example
+ * ```ts
+ * tokenizeSearchText('Real-time KPI Dashboards'); // ["real", "time", "kpi", "dashboards"]
+ * ```
+ */
+export function tokenizeSearchText(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 1);
+}
+
+/**
+ * Builds the inverted index for a set of documents
+ * Title and keyword matches are weighted above body matches
+ */
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const terms: Record<string, [number, number][]> = {};
+
+  documents.forEach((document, documentIndex) => {
+    const weights = new Map<string, number>();
+    const add = (text: string, weight: number) => {
+      for (const term of tokenizeSearchText(text)) weights.set(term, (weights.get(term) ?? 0) + weight);
+    };
+    add(document.title, FIELD_WEIGHTS.title);
+    (document.keywords ?? []).forEach((keyword) => add(keyword, FIELD_WEIGHTS.keywords));
+    add(document.text, FIELD_WEIGHTS.text);
+
+    weights.forEach((weight, term) => {
+      (terms[term] ??= []).push([documentIndex, weight]);
+    });
+  });
+
+  return { version: 1, documents, terms };
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How closely a term matches a query term
+ * Exact matches score 1, prefixes 0.8 and typos (1 edit, 2 for long terms) 0.5
+ *
+ * @returns Closeness, or 0 when the term does not match
+ */
+export function matchTerm(queryTerm: string, term: string): number {
+  const maxEdits = queryTerm.length >= 8 ? 2 : queryTerm.length >= 4 ? 1 : 0;
+  if (term === queryTerm) return 1;
+  if (term.startsWith(queryTerm)) return 0.8;
+  if (maxEdits > 0 && editDistance(queryTerm, term, maxEdits) <= maxEdits) return 0.5;
+  return 0;
+}
+
+/**
+ * Index terms a query term should match, with how closely they match
+ */
+function expandTerm(index: SearchIndex, queryTerm: string): Map<string, number> {
+  const matches = new Map<string, number>();
+  for (const term of Object.keys(index.terms)) {
+    const closeness = matchTerm(queryTerm, term);
+    if (closeness > 0) matches.set(term, closeness);
+  }
+  return matches;
+}
+
+/**
+ * Splits text into plain and highlighted segments for every word matching one of the terms
+ */
+export function highlightTerms(text: string, terms: Set<string>): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const [normalized] = tokenizeSearchText(match[0]);
+    if (!normalized || !terms.has(normalized)) continue;
+    const start = match.index ?? 0;
+    if (start > last) segments.push({ text: text.slice(last, start), match: false });
+    segments.push({ text: match[0], match: true });
+    last = start + match[0].length;
+  }
+
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
+
+/**
+ * Cuts a window of text around the first matched term and highlights matches in it
+ */
+export function buildSnippet(text: string, terms: Set<string>, length: number = SNIPPET_LENGTH): SnippetSegment[] {
+  let first = -1;
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const [normalized] = tokenizeSearchText(match[0]);
+    if (normalized && terms.has(normalized)) {
+      first = match.index ?? 0;
+      break;
+    }
+  }
+
+  const start = first <= length / 3 ? 0 : text.lastIndexOf(' ', first - Math.floor(length / 3)) + 1;
+  const endCandidate = text.indexOf(' ', start + length);
+  const end = endCandidate === -1 ? text.length : endCandidate;
+
+  const segments = highlightTerms(text.slice(start, end), terms);
+  if (start > 0) segments.unshift({ text: '… ', match: false });
+  if (end < text.length) segments.push({ text: ' …', match: false });
+  return segments;
+}
+
+/**
+ * Ranks documents matching every term of the query
+ *
+ * @param index - Index loaded with loadSearchIndex
+ * @param query - Raw user input
+ * @param limit - Maximum results
+ * @returns Results with highlighted title and snippet, best match first
+ *
+ * @example
+ * ```ts
+ * querySearchIndex(index, 'forcast', 5); // matches "forecast", "forecasting"
+ * ```
+ */
+export function querySearchIndex(index: SearchIndex, query: string, limit: number = 8): SearchResult[] {
+  const queryTerms = Array.from(new Set(tokenizeSearchText(query)));
+  if (queryTerms.length === 0) return [];
+
+  const scores = new Map<number, number>();
+  const matchedTerms = new Map<number, Set<string>>();
+
+  for (const [position, queryTerm] of queryTerms.entries()) {
+    const termScores = new Map<number, number>();
+    expandTerm(index, queryTerm).forEach((closeness, term) => {
+      for (const [documentIndex, weight] of index.terms[term]) {
+        termScores.set(documentIndex, Math.max(termScores.get(documentIndex) ?? 0, closeness * weight));
+        if (!matchedTerms.has(documentIndex)) matchedTerms.set(documentIndex, new Set());
+        matchedTerms.get(documentIndex)?.add(term);
+      }
+    });
+
+    // Every query term has to match somewhere in the document
+    if (position === 0) {
+      termScores.forEach((score, documentIndex) => scores.set(documentIndex, score));
+    } else {
+      scores.forEach((score, documentIndex) => {
+        const termScore = termScores.get(documentIndex);
+        if (termScore === undefined) scores.delete(documentIndex);
+        else scores.set(documentIndex, score + termScore);
+      });
+    }
+  }
+
+  return Array.from(scores.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([documentIndex, score]) => {
+      const document = index.documents[documentIndex];
+      const terms = matchedTerms.get(documentIndex) ?? new Set<string>();
+      return {
+        document,
+        score,
+        title: highlightTerms(document.title, terms),
+        snippet: buildSnippet(document.text, terms),
+      };
+    });
+}
+
+// Shared across callers so each index is only downloaded once per visit
+const indexRequests = new Map<Locale, Promise<SearchIndex>>();
+
+/**
+ * Fetches a locale's exported index in the browser; a failed request is retried on the next call
+ */
+export function loadSearchIndex(locale: Locale): Promise<SearchIndex> {
+  let request = indexRequests.get(locale);
+  if (!request) {
+    request = fetch(withBasePath(getSearchIndexPath(locale))).then((response) => {
+      if (!response.ok) throw new Error(`Search index request failed with status ${response.status}`);
+      return response.json() as Promise<SearchIndex>;
+    });
+    request.catch(() => {
+      indexRequests.delete(locale);
+    });
+    indexRequests.set(locale, request);
+  }
+  return request;
+}
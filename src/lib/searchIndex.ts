@@ -0,0 +1,128 @@
+/**
+ * Search index source documents
+ * Collects homepage sections, framework pillars, case studies and insights
+ * into SearchDocuments per locale at export time. Sections and case studies
+ * come from the locale's dictionary; insights are English-only and appear in
+ * every index. Server-only: reads insights from disk.
+ */
+
+import { getSiteContent } from './dictionaries';
+import { formatMetricValue } from './format';
+import { getLocalePath, type Locale } from './i18n';
+import { getCaseStudyHref, getLocalizedCaseStudies } from './caseStudies';
+import { getAllPosts, getCategoryBySlug } from './insights';
+import { HOME_SECTIONS, isSectionPublished, type HomeSection } from './publishing';
+import { buildSearchIndex, type SearchDocument, type SearchIndex } from './search';
+
+// Keys holding presentation data or publishing status rather than copy
+const NON_TEXT_KEYS = ['id', 'color', 'icon', 'href', 'number', 'status', 'publishAt'];
+
+// Pillars and case studies get documents of their own
+const SECTION_SKIPPED_KEYS = new Set([...NON_TEXT_KEYS, 'pillars', 'caseStudies']);
+
+/**
+ * Flattens every string in a content object into one block of text
+ */
+function collectText(value: unknown, skippedKeys: Set<string> = new Set(NON_TEXT_KEYS)): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap((item) => collectText(item, skippedKeys));
+  if (value && typeof value === 'object') {
+    return Object.entries(value)
+      .filter(([key]) => !skippedKeys.has(key))
+      .flatMap(([, nested]) => collectText(nested, skippedKeys));
+  }
+  return [];
+}
+
+/**
+ * Reduces markdown or MDX to readable plain text
+ */
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/<[A-Z][A-Za-z0-9]*[^>]*?\/>/g, ' ')
+    .replace(/<\/?[A-Za-z][^>]*>/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`~|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Every searchable document on the site, with section copy in one locale
+ */
+export function getSearchDocuments(locale: Locale): SearchDocument[] {
+  const content = getSiteContent(locale);
+  const { hero, framework } = content;
+
+  const heroDocument: SearchDocument = {
+    id: 'section:hero',
+    type: 'section',
+    title: hero.preHeadline,
+    href: getLocalePath(locale, '#hero'),
+    text: collectText(hero).join(' '),
+  };
+
+  // Draft and scheduled sections are left out like they are on the page
+  const sections: SearchDocument[] = [
+    ...(isSectionPublished('hero') ? [heroDocument] : []),
+    // The hero is titled by its pre-headline and has no eyebrow, so it is indexed above
+    ...HOME_SECTIONS.filter(
+      (key): key is Exclude<HomeSection, 'hero'> => key !== 'hero' && isSectionPublished(key)
+    ).map((key): SearchDocument => {
+      const section = content[key];
+      return {
+        id: `section:${key}`,
+        type: 'section',
+        title: section.headline,
+        href: getLocalePath(locale, `#${key}`),
+        context: section.eyebrow,
+        text: collectText(section, SECTION_SKIPPED_KEYS).join(' '),
+      };
+    }),
+    ...(isSectionPublished('framework') ? framework.pillars : []).map((pillar): SearchDocument => ({
+      id: `pillar:${pillar.id}`,
+      type: 'section',
+      title: pillar.title,
+      href: getLocalePath(locale, '#framework'),
+      context: pillar.subtitle,
+      text: [pillar.description, ...pillar.benefits].join(' '),
+      keywords: [...pillar.services],
+    })),
+  ];
+
+  const caseStudies = getLocalizedCaseStudies(content.impact).map((caseStudy): SearchDocument => ({
+    id: `case-study:${caseStudy.id}`,
+    type: 'case-study',
+    title: caseStudy.client,
+    href: getCaseStudyHref(caseStudy.id),
+    context: caseStudy.industry,
+    text: [
+      caseStudy.summary.outcome,
+      caseStudy.challenge,
+      caseStudy.solution,
+      ...caseStudy.metrics.map((metric) => `${formatMetricValue(metric, locale)} ${metric.label}`),
+    ].join(' '),
+    keywords: [caseStudy.industry],
+  }));
+
+  const insights = getAllPosts().map((post): SearchDocument => ({
+    id: `insight:${post.slug}`,
+    type: 'insight',
+    title: post.title,
+    href: `/insights/${post.slug}/`,
+    context: getCategoryBySlug(post.category)?.name,
+    text: `${post.excerpt} ${markdownToText(post.content)}`,
+    keywords: post.tags,
+  }));
+
+  return [...sections, ...caseStudies, ...insights];
+}
+
+/**
+ * Inverted index written to getSearchIndexPath(locale) by the static export
+ */
+export function getSiteSearchIndex(locale: Locale): SearchIndex {
+  return buildSearchIndex(getSearchDocuments(locale));
+}
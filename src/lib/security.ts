@@ -10,7 +10,9 @@ export const cspConfig = {
     "https://www.googletagmanager.com",
     "https://www.google-analytics.com",
     "https://calendly.com",
-    "https://*.calendly.com"
+    "https://*.calendly.com",
+    "https://cal.com",
+    "https://app.cal.com"
   ],
   'style-src': [
     "'self'",
@@ -32,11 +34,18 @@ export const cspConfig = {
     "https://www.google-analytics.com",
     "https://calendly.com",
     "https://*.calendly.com",
-    "https://vitals.vercel-insights.com"
+    "https://cal.com",
+    "https://app.cal.com",
+    "https://vitals.vercel-insights.com",
+    "https://plausible.io",
+    // Self-hosted endpoint of the Plausible analytics adapter
+    ...(process.env.NEXT_PUBLIC_PLAUSIBLE_ENDPOINT ? [new URL(process.env.NEXT_PUBLIC_PLAUSIBLE_ENDPOINT).origin] : [])
   ],
   'frame-src': [
     "https://calendly.com",
-    "https://*.calendly.com"
+    "https://*.calendly.com",
+    "https://cal.com",
+    "https://app.cal.com"
   ],
   'object-src': ["'none'"],
   'base-uri': ["'self'"],
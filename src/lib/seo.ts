@@ -1,5 +1,10 @@
 import { Metadata } from 'next'
 import { seoMetadata } from './constants'
+import { LOCALES, LOCALE_SETTINGS, getLocalePath } from './i18n'
+import { isPreviewBuild } from './publishing'
+import { SEARCH_QUERY_PARAM } from './search'
+import { absoluteUrl } from './urls'
+import type { CaseStudyMetric } from '../types/caseStudy'
 
 // Generate comprehensive metadata for pages
 export const generateMetadata = (
@@ -10,7 +15,7 @@ export const generateMetadata = (
 ): Metadata => {
   const pageTitle = title ? `${title} | AUXO Data Co.` : seoMetadata.title
   const pageDescription = description || seoMetadata.description
-  const pageUrl = path ? `${seoMetadata.url}${path}` : seoMetadata.url
+  const pageUrl = path ? absoluteUrl(path) : seoMetadata.url
   const pageImage = image || seoMetadata.ogImage
 
   return {
@@ -22,11 +27,11 @@ export const generateMetadata = (
     creator: "AUXO Data Co.",
     publisher: "AUXO Data Co.",
     robots: {
-      index: true,
-      follow: true,
+      index: !isPreviewBuild(),
+      follow: !isPreviewBuild(),
       googleBot: {
-        index: true,
-        follow: true,
+        index: !isPreviewBuild(),
+        follow: !isPreviewBuild(),
         "max-video-preview": -1,
         "max-image-preview": "large",
         "max-snippet": -1,
@@ -59,6 +64,62 @@ export const generateMetadata = (
   }
 }
 
+// Site-wide defaults shared by the root layouts
+// Preview builds carry unpublished content and must stay out of search results
+export const rootMetadata: Metadata = {
+  metadataBase: new URL(seoMetadata.url),
+  title: seoMetadata.title,
+  description: seoMetadata.description,
+  keywords: seoMetadata.keywords,
+  authors: [{ name: "AUXO Data Co." }],
+  creator: "AUXO Data Co.",
+  publisher: "AUXO Data Co.",
+  robots: {
+    index: !isPreviewBuild(),
+    follow: !isPreviewBuild(),
+    googleBot: {
+      index: !isPreviewBuild(),
+      follow: !isPreviewBuild(),
+      "max-video-preview": -1,
+      "max-image-preview": "large",
+      "max-snippet": -1,
+    },
+  },
+  openGraph: {
+    title: seoMetadata.title,
+    description: seoMetadata.description,
+    images: [
+      {
+        url: seoMetadata.ogImage,
+        width: 1200,
+        height: 630,
+        alt: "AUXO Data Co. - Strategic Data Intelligence",
+      },
+    ],
+    type: "website",
+    url: absoluteUrl('/'),
+    siteName: "AUXO Data Co.",
+  },
+  twitter: {
+    card: "summary_large_image",
+    title: seoMetadata.title,
+    description: seoMetadata.description,
+    images: [seoMetadata.ogImage],
+  },
+  // No canonical here: every page would inherit it, so only pages with their own path declare one
+}
+
+/**
+ * hreflang alternates for the localized homepage
+ * x-default points at the root, which redirects to the visitor's language
+ */
+export const getHreflangAlternates = (): Record<string, string> => ({
+  ...Object.fromEntries(
+    LOCALES.map((locale) => [LOCALE_SETTINGS[locale].hreflang, absoluteUrl(getLocalePath(locale))])
+  ),
+  "x-default": absoluteUrl('/'),
+})
+
 // JSON-LD structured data generators
 export const generateOrganizationSchema = () => ({
   "@context": "https://schema.org",
@@ -70,7 +131,7 @@ export const generateOrganizationSchema = () => ({
   contactPoint: {
     "@type": "ContactPoint",
     contactType: "sales",
-    availableLanguage: "English",
+    availableLanguage: ["English", "Arabic"],
   },
   sameAs: [],
 })
@@ -83,7 +144,7 @@ export const generateWebsiteSchema = () => ({
   description: seoMetadata.description,
   potentialAction: {
     "@type": "SearchAction",
-    target: `${seoMetadata.url}/?q={search_term_string}`,
+    target: `${absoluteUrl('/')}?${SEARCH_QUERY_PARAM}={search_term_string}`,
     "query-input": "required name=search_term_string",
   },
 })
@@ -151,4 +212,48 @@ export const optimizeForSearch = {
     datePublished: publishDate,
     dateModified: publishDate,
   }),
+
+  // Generate case study schema (an Article about the client engagement)
+  generateCaseStudySchema: (caseStudy: {
+    title: string
+    description: string
+    url: string
+    client: string
+    industry: string
+    metrics: ReadonlyArray<CaseStudyMetric>
+  }) => ({
+    "@context": "https://schema.org",
+    "@type": "Article",
+    genre: "Case Study",
+    headline: caseStudy.title,
+    description: caseStudy.description,
+    url: caseStudy.url,
+    mainEntityOfPage: caseStudy.url,
+    articleSection: caseStudy.industry,
+    about: {
+      "@type": "Organization",
+      name: caseStudy.client,
+      description: `${caseStudy.industry} client of AUXO Data Co.`,
+    },
+    author: {
+      "@type": "Organization",
+      name: "AUXO Data Co.",
+    },
+    publisher: {
+      "@type": "Organization",
+      name: "AUXO Data Co.",
+      logo: {
+        "@type": "ImageObject",
+        url: `${seoMetadata.url}/logo.svg`,
+      },
+    },
+    mentions: caseStudy.metrics.map((metric) => ({
+      "@type": "QuantitativeValue",
+      name: metric.label,
+      value: metric.amount,
+      // UN/CEFACT code P1 is percent
+      ...(metric.unit === "currency" ? { unitText: metric.currency } : {}),
+      ...(metric.unit === "percent" ? { unitCode: "P1" } : {}),
+    })),
+  }),
 }
\ No newline at end of file
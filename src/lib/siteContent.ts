@@ -0,0 +1,467 @@
+/**
+ * Site content schema
+ * Homepage, header, footer, scheduling, cookie banner and error page copy lives in content/site/<locale> as one
+ * JSON file per section so it can be edited without touching components.
+ * lib/dictionaries imports the files; this module describes their shape and
+ * validates every locale at build time, reporting `file: path.to.field message`
+ * for every problem. Server-only at runtime: components import the types alone.
+ */
+
+import { z } from 'zod';
+import { METRIC_UNITS } from './format';
+import { DEFAULT_LOCALE, LOCALES, findOverlayProblems, type Locale } from './i18n';
+import { CONTENT_STATUSES } from './publishing';
+import type { CaseStudy } from '../types/caseStudy';
+import type { Publishable } from '../types/publishing';
+import { CONSENT_CATEGORIES } from '../types/consent';
+
+/** Directory holding one folder per locale, each with one JSON file per section */
+export const SITE_CONTENT_DIR = 'content/site';
+
+const text = z.string().trim().min(1);
+
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'Expected a 24-hour time such as 09:00' });
+
+const isoDay = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: 'Expected a date such as 2025-12-24' });
+
+const timeZone = z.string().refine(
+  (value) => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: value });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Expected an IANA time zone such as America/New_York' }
+);
+
+/**
+ * Optional draft/scheduled status, see lib/publishing
+ */
+const publication = {
+  status: z.enum(CONTENT_STATUSES).optional(),
+  publishAt: z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), { message: 'Expected an ISO 8601 date or date-time' })
+    .optional(),
+};
+
+const hasPublishAt = (item: Publishable) => item.status !== 'scheduled' || item.publishAt !== undefined;
+
+const missingPublishAt = { message: 'Scheduled content needs a publishAt date', path: ['publishAt'] };
+
+const link = z.strictObject({
+  href: text,
+  label: text,
+});
+
+const navigationSchema = z.strictObject({
+  logo: text,
+  menuItems: z.array(link.extend({ description: text })).min(1),
+  ctaButton: text,
+  languageLabel: text,
+  openMenuLabel: text,
+  closeMenuLabel: text,
+  skipToContentLabel: text,
+  homeLabel: text,
+  mainContentLabel: text,
+});
+
+const heroSchema = z.strictObject({
+  preHeadline: text,
+  headline: text,
+  subheadline: text,
+  ctaText: text,
+  ctaSubtext: text,
+  sectionLabel: text,
+  ctaLabel: text,
+  ...publication,
+}).refine(hasPublishAt, missingPublishAt);
+
+const challengeSchema = z.strictObject({
+  eyebrow: text,
+  headline: text,
+  subheadline: text,
+  bodyText: text,
+  emphasisText: text,
+  costBreakdown: z.strictObject({
+    title: text,
+    items: z.array(z.strictObject({ impact: text, title: text, description: text })).min(1),
+  }),
+  transitionText: text,
+  visionText: text,
+  visionLinkText: text,
+  sectionLabel: text,
+  ...publication,
+}).refine(hasPublishAt, missingPublishAt);
+
+const frameworkSchema = z.strictObject({
+  eyebrow: text,
+  headline: text,
+  subheadline: text,
+  pillars: z
+    .array(
+      z.strictObject({
+        id: text,
+        number: text,
+        title: text,
+        subtitle: text,
+        description: text,
+        benefits: z.array(text).min(1),
+        services: z.array(text).min(1),
+      })
+    )
+    .min(1),
+  closingStatement: text,
+  closingDescription: text,
+  sectionLabel: text,
+  ...publication,
+}).refine(hasPublishAt, missingPublishAt);
+
+/**
+ * Metric amounts are plain numbers rendered per locale by lib/format
+ */
+const metricSchema = z
+  .strictObject({
+    amount: z.number(),
+    from: z.number().optional(),
+    unit: z.enum(METRIC_UNITS),
+    currency: z.string().regex(/^[A-Z]{3}$/, { message: 'Expected an ISO 4217 currency code such as USD' }).optional(),
+    label: text,
+  })
+  .refine((metric) => metric.unit !== 'currency' || metric.currency !== undefined, {
+    message: 'Currency metrics need a currency code',
+    path: ['currency'],
+  });
+
+const caseStudySchema = z.strictObject({
+  id: z.number().int().positive(),
+  client: text,
+  industry: text,
+  summary: z.strictObject({ challenge: text, outcome: text }),
+  challenge: text,
+  solution: text,
+  outcome: text,
+  metrics: z.array(metricSchema).min(1),
+  color: text,
+  ...publication,
+}).refine(hasPublishAt, missingPublishAt) satisfies z.ZodType<CaseStudy>;
+
+/**
+ * `caseStudies` is the single source for the carousel, case-study pages,
+ * search and sitemap; see lib/caseStudies
+ */
+const impactSchema = z.strictObject({
+  eyebrow: text,
+  headline: text,
+  subheadline: text,
+  caseStudies: z.array(caseStudySchema).min(1),
+  challengeLabel: text,
+  outcomeLabel: text,
+  caseStudyLinkText: text,
+  closingStatement: text,
+  closingDescription: text,
+  sectionLabel: text,
+  ...publication,
+}).refine(hasPublishAt, missingPublishAt);
+
+const engagementSchema = z.strictObject({
+  eyebrow: text,
+  headline: text,
+  subheadline: text,
+  bodyText: text,
+  trustIndicators: z.array(z.strictObject({ icon: text, text, description: text })).min(1),
+  processSteps: z.array(z.strictObject({ title: text, description: text })).min(1),
+  socialProof: z.strictObject({ quote: text, attribution: text }),
+  urgencyStatement: text,
+  urgencyDescription: text,
+  ctaText: text,
+  ctaSubtext: text,
+  sectionLabel: text,
+  ...publication,
+}).refine(hasPublishAt, missingPublishAt);
+
+/**
+ * `tagCloudLimit` caps the most used insight tags shown in the footer tag cloud;
+ * `tagCountLabel` names the post count in each tag's tooltip
+ */
+const footerSchema = z.strictObject({
+  tagline: text,
+  description: text,
+  ctaText: text,
+  navigationLinks: z.array(link),
+  contactEmail: z.email(),
+  privacyLink: text,
+  privacyLabel: text,
+  cookiePreferencesLabel: text,
+  companyName: text,
+  taglineBottom: text,
+  rightsText: text,
+  tagCloudLimit: z.number().int().nonnegative(),
+  tagCloudTitle: text,
+  tagCountLabel: z.strictObject({ one: text, other: text }),
+  sectionLabel: text,
+});
+
+const qualificationSchema = z.strictObject({
+  title: text,
+  description: text,
+  progressLabel: text,
+  backButton: text,
+  nextButton: text,
+  changeSlotButton: text,
+  requiredError: text,
+  companySize: z.strictObject({ question: text, options: z.array(text).min(2) }),
+  industry: z.strictObject({ question: text, otherOption: text }),
+  dataStack: z.strictObject({ question: text, hint: text, options: z.array(text).min(2) }),
+  painPoint: z.strictObject({ question: text }),
+});
+
+const manageSchema = z.strictObject({
+  linkLabel: text,
+  title: text,
+  verifyingText: text,
+  invalidTitle: text,
+  invalidText: text,
+  unavailableText: text,
+  currentSessionLabel: text,
+  rescheduleButton: text,
+  cancelButton: text,
+  cancelPrompt: text,
+  confirmCancelButton: text,
+  keepButton: text,
+  rescheduleTitle: text,
+  confirmRescheduleButton: text,
+  reschedulingText: text,
+  rescheduledTitle: text,
+  cancelledTitle: text,
+  cancelledText: text,
+  actionErrorText: text,
+  bookAgainButton: text,
+  contactLabel: text,
+});
+
+/**
+ * Host availability; times are wall-clock in `hostTimeZone` and weekdays run
+ * from 0 (Sunday) to 6 (Saturday)
+ */
+const availabilitySchema = z.strictObject({
+  hostTimeZone: timeZone,
+  workingHours: z
+    .array(
+      z
+        .strictObject({ weekday: z.number().int().min(0).max(6), start: clockTime, end: clockTime })
+        .refine((hours) => hours.start < hours.end, { message: 'start must be before end', path: ['end'] })
+    )
+    .min(1),
+  slotIntervalMinutes: z.number().int().positive(),
+  bufferMinutes: z.number().int().nonnegative(),
+  minimumNoticeHours: z.number().nonnegative(),
+  bookingHorizonDays: z.number().int().positive(),
+  blackoutDates: z.array(isoDay),
+});
+
+const schedulingSchema = z.strictObject({
+  title: text,
+  subtitle: text,
+  meetingTitle: text,
+  meetingDescription: text,
+  loadingText: text,
+  confirmButton: text,
+  confirmingText: text,
+  availableTimesTitle: text,
+  selectDatePrompt: text,
+  noSlotsText: text,
+  loadErrorText: text,
+  bookingErrorText: text,
+  confirmationTitle: text,
+  confirmationDescription: text,
+  bookingReferenceLabel: text,
+  rebookButton: text,
+  timeZoneLabel: text,
+  yourTimeLabel: text,
+  hostTimeLabel: text,
+  addToCalendarTitle: text,
+  downloadIcsLabel: text,
+  googleCalendarLabel: text,
+  outlookCalendarLabel: text,
+  reminderMinutes: z.number().int().nonnegative(),
+  qualification: qualificationSchema,
+  manage: manageSchema,
+  meetingLengthMinutes: z.number().int().positive(),
+  availability: availabilitySchema,
+});
+
+/**
+ * Cookie banner and preferences center; `categories` lists every consent
+ * category once, in display order
+ */
+const consentSchema = z.strictObject({
+  title: text,
+  description: text,
+  privacyLinkText: text,
+  policyUpdatedText: text,
+  acceptAllText: text,
+  essentialOnlyText: text,
+  preferencesText: text,
+  hidePreferencesText: text,
+  saveText: text,
+  closeLabel: text,
+  alwaysOnLabel: text,
+  // Shown in the preferences center when a browser signal set essential-only cookies
+  privacySignalText: z.strictObject({ gpc: text, dnt: text }),
+  categories: z
+    .array(z.strictObject({ id: z.enum(CONSENT_CATEGORIES), title: text, description: text }))
+    .refine((categories) => CONSENT_CATEGORIES.every((id) => categories.filter((category) => category.id === id).length === 1), {
+      message: `Expected each of ${CONSENT_CATEGORIES.join(', ')} exactly once`,
+    }),
+  schedulingBlockedText: text,
+  schedulingAllowText: text,
+});
+
+/**
+ * Header search palette; `typeLabels` names each search index document type
+ */
+const searchSchema = z.strictObject({
+  openLabel: text,
+  shortcutHint: text,
+  dialogLabel: text,
+  placeholder: text,
+  loadingText: text,
+  loadErrorText: text,
+  emptyPrompt: text,
+  noResultsText: text,
+  closeLabel: text,
+  typeLabels: z.strictObject({ section: text, insight: text, 'case-study': text }),
+});
+
+/**
+ * Route error page, see components/layout/RouteError
+ */
+const errorPageSchema = z.strictObject({
+  headline: text,
+  subheadline: text,
+  retryText: text,
+  ctaText: text,
+  ctaLink: text,
+  suggestionsTitle: text,
+});
+
+/**
+ * Schema per content/site file, keyed by siteContent section
+ */
+export const siteContentSchemas = {
+  navigation: navigationSchema,
+  hero: heroSchema,
+  challenge: challengeSchema,
+  framework: frameworkSchema,
+  impact: impactSchema,
+  engagement: engagementSchema,
+  footer: footerSchema,
+  scheduling: schedulingSchema,
+  consent: consentSchema,
+  search: searchSchema,
+  errorPage: errorPageSchema,
+} as const;
+
+export type SiteContentSection = keyof typeof siteContentSchemas;
+
+type DeepReadonly<T> = T extends (infer Item)[]
+  ? readonly DeepReadonly<Item>[]
+  : T extends object
+    ? { readonly [Key in keyof T]: DeepReadonly<T[Key]> }
+    : T;
+
+/**
+ * Shape of `siteContent`, read-only like the `as const` literal it replaced
+ */
+export type SiteContent = {
+  readonly [Section in SiteContentSection]: DeepReadonly<z.infer<(typeof siteContentSchemas)[Section]>>;
+};
+
+type JsonShape<T> = T extends string
+  ? string
+  : T extends readonly (infer Item)[]
+    ? JsonShape<Item>[]
+    : T extends object
+      ? { [Key in keyof T]: JsonShape<T[Key]> }
+      : T;
+
+/**
+ * Shape of the content/site JSON imports. TypeScript widens string unions such
+ * as `status` to string in JSON, so only those are left to the schemas.
+ */
+export type SiteContentJson = {
+  [Section in SiteContentSection]: JsonShape<z.input<(typeof siteContentSchemas)[Section]>>;
+};
+
+/**
+ * Checks every section of one locale against its schema
+ *
+ * @param content - Complete content for the locale, keyed by section
+ * @param locale - Folder the content was read from, used in messages
+ * @returns One `content/site/<locale>/<section>.json: path.to.field message` line per problem
+ *
+ * @example
+ * ```ts
+ * validateSiteContent({ ...siteContent, hero: { ...siteContent.hero, headline: '' } });
+ * // ["content/site/en/hero.json: headline Too small: expected string to have >=1 characters"]
+ * ```
+ */
+export function validateSiteContent(content: Record<string, unknown>, locale: Locale = DEFAULT_LOCALE): string[] {
+  return (Object.keys(siteContentSchemas) as SiteContentSection[]).flatMap((section) => {
+    const source = `${SITE_CONTENT_DIR}/${locale}/${section}.json`;
+    if (content[section] === undefined) return [`${source}: (root) missing section`];
+
+    const result = siteContentSchemas[section].safeParse(content[section]);
+    return result.success
+      ? []
+      : result.error.issues.map((issue) => `${source}: ${issue.path.join('.') || '(root)'} ${issue.message}`);
+  });
+}
+
+/**
+ * Checks that a translation only contains fields the default locale has
+ *
+ * @param base - Default-locale content, keyed by section
+ * @param overlay - Translation as written, keyed by section
+ */
+export function validateSiteContentOverlay(
+  base: Record<string, unknown>,
+  overlay: Record<string, unknown>,
+  locale: Locale
+): string[] {
+  return Object.keys(overlay).flatMap((section) => {
+    const source = `${SITE_CONTENT_DIR}/${locale}/${section}.json`;
+    if (!(section in siteContentSchemas)) return [`${source}: (root) unknown section`];
+    return findOverlayProblems(base[section], overlay[section]).map((problem) => `${source}: ${problem}`);
+  });
+}
+
+let validated = false;
+
+/**
+ * Validates the site content of every locale once per build
+ *
+ * @param contentByLocale - Merged content per locale
+ * @param overlays - Translations as written, per non-default locale
+ * @throws Error listing every problem, which fails the static export
+ */
+export function assertValidSiteContent(
+  contentByLocale: Record<Locale, Record<string, unknown>>,
+  overlays: Partial<Record<Locale, Record<string, unknown>>> = {}
+): void {
+  if (validated) return;
+  const problems = LOCALES.flatMap((locale) => {
+    const overlay = overlays[locale];
+    return [
+      ...(overlay ? validateSiteContentOverlay(contentByLocale[DEFAULT_LOCALE], overlay, locale) : []),
+      ...validateSiteContent(contentByLocale[locale], locale),
+    ];
+  });
+  if (problems.length > 0) {
+    throw new Error(`Invalid site content\n${problems.join('\n')}`);
+  }
+  validated = true;
+}
@@ -0,0 +1,228 @@
+/**
+ * Time zone utilities built on the Intl API
+ * Converts between wall-clock times in an IANA time zone and UTC instants
+ * without shipping a time zone database
+ */
+
+/**
+ * Calendar and clock fields of an instant as observed in a specific time zone
+ */
+export interface ZonedDateTime {
+  year: number;
+  /** Month of the year (1-12) */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  /** Day of the week (0 = Sunday, 6 = Saturday) */
+  weekday: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Reads the wall-clock fields of an instant in the given time zone
+ *
+ * @param date - Instant to inspect
+ * @param timeZone - IANA time zone name (e.g. "America/New_York")
+ * @returns Zoned calendar and clock fields
+ *
+ * @example
+ * ```ts
+ * getZonedDateTime(new Date('2025-01-15T14:00:00Z'), 'America/New_York');
+ * // { year: 2025, month: 1, day: 15, hour: 9, minute: 0, weekday: 3 }
+ * ```
+ */
+export function getZonedDateTime(date: Date, timeZone: string): ZonedDateTime {
+  const parts = getPartsFormatter(timeZone).formatToParts(date);
+  const lookup = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? '';
+
+  return {
+    year: Number(lookup('year')),
+    month: Number(lookup('month')),
+    day: Number(lookup('day')),
+    hour: Number(lookup('hour')) % 24,
+    minute: Number(lookup('minute')),
+    weekday: WEEKDAYS.indexOf(lookup('weekday')),
+  };
+}
+
+/**
+ * Returns the UTC offset of a time zone at a given instant, in minutes
+ * Positive values are ahead of UTC (e.g. +240 for Asia/Dubai)
+ *
+ * @param date - Instant at which to evaluate the offset (DST aware)
+ * @param timeZone - IANA time zone name
+ * @returns Offset from UTC in minutes
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const zoned = getZonedDateTime(date, timeZone);
+  const asUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute);
+  const truncated = Math.floor(date.getTime() / 60000) * 60000;
+  return Math.round((asUtc - truncated) / 60000);
+}
+
+/**
+ * Converts a wall-clock time in a time zone to the matching UTC instant
+ * Re-evaluates the offset at the resulting instant so times either side of a
+ * DST transition resolve correctly
+ *
+ * @param fields - Calendar date (month is 1-12) and clock time in the zone
+ * @param timeZone - IANA time zone name
+ * @returns UTC instant for the wall-clock time
+ *
+ * @example
+ * ```ts
+ * zonedTimeToUtc({ year: 2025, month: 7, day: 1, hour: 9, minute: 0 }, 'America/New_York');
+ * // 2025-07-01T13:00:00.000Z
+ * ```
+ */
+export function zonedTimeToUtc(
+  fields: Omit<ZonedDateTime, 'weekday'>,
+  timeZone: string
+): Date {
+  const guess = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute);
+  const firstOffset = getTimeZoneOffset(new Date(guess), timeZone);
+  let result = guess - firstOffset * 60000;
+
+  const secondOffset = getTimeZoneOffset(new Date(result), timeZone);
+  if (secondOffset !== firstOffset) {
+    result = guess - secondOffset * 60000;
+  }
+
+  return new Date(result);
+}
+
+/**
+ * Formats the calendar date of an instant in a time zone as YYYY-MM-DD
+ *
+ * @param date - Instant to format
+ * @param timeZone - IANA time zone name
+ * @returns ISO calendar date key
+ */
+export function toDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedDateTime(date, timeZone);
+  return formatDateKey(year, month, day);
+}
+
+/**
+ * Builds a YYYY-MM-DD key from calendar fields (month is 1-12)
+ */
+export function formatDateKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Checks whether the runtime recognises an IANA time zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detects the visitor's IANA time zone from the browser
+ *
+ * @param fallback - Zone to use when detection fails (default: "UTC")
+ * @returns Detected or fallback time zone
+ */
+export function detectTimeZone(fallback: string = 'UTC'): string {
+  try {
+    const detected = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return detected && isValidTimeZone(detected) ? detected : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// Used when the runtime cannot enumerate its time zone database
+const FALLBACK_TIME_ZONES = [
+  'Pacific/Honolulu', 'America/Anchorage', 'America/Los_Angeles', 'America/Denver',
+  'America/Chicago', 'America/New_York', 'America/Toronto', 'America/Sao_Paulo',
+  'Europe/London', 'Europe/Dublin', 'Europe/Paris', 'Europe/Berlin', 'Europe/Zurich',
+  'Africa/Cairo', 'Africa/Johannesburg', 'Europe/Istanbul', 'Asia/Riyadh', 'Asia/Qatar',
+  'Asia/Dubai', 'Asia/Karachi', 'Asia/Kolkata', 'Asia/Singapore', 'Asia/Hong_Kong',
+  'Asia/Shanghai', 'Asia/Tokyo', 'Australia/Sydney', 'Pacific/Auckland', 'UTC',
+];
+
+/**
+ * Lists IANA time zones supported by the runtime, sorted by current UTC offset
+ *
+ * @param include - Zones that must appear in the list (e.g. host and detected zones)
+ * @param date - Instant used to evaluate offsets for sorting
+ * @returns Sorted, de-duplicated list of zone names
+ */
+export function getSupportedTimeZones(include: string[] = [], date: Date = new Date()): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  let zones: string[];
+  try {
+    zones = intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : FALLBACK_TIME_ZONES;
+  } catch {
+    zones = FALLBACK_TIME_ZONES;
+  }
+
+  const unique = Array.from(new Set([...zones, ...include])).filter(isValidTimeZone);
+  const offsets = new Map(unique.map((zone) => [zone, getTimeZoneOffset(date, zone)]));
+
+  return unique.sort((a, b) => offsets.get(a)! - offsets.get(b)! || a.localeCompare(b));
+}
+
+/**
+ * Formats the UTC offset of a zone at an instant, e.g. "GMT-4" or "GMT+5:30"
+ */
+export function formatTimeZoneOffset(timeZone: string, date: Date = new Date()): string {
+  const offset = getTimeZoneOffset(date, timeZone);
+  if (offset === 0) return 'GMT';
+
+  const sign = offset > 0 ? '+' : '-';
+  const hours = Math.floor(Math.abs(offset) / 60);
+  const minutes = Math.abs(offset) % 60;
+  return `GMT${sign}${hours}${minutes ? `:${String(minutes).padStart(2, '0')}` : ''}`;
+}
+
+/**
+ * Builds a human-readable label for a time zone picker
+ *
+ * @example
+ * ```ts
+ * formatTimeZoneLabel('America/New_York'); // "New York (GMT-4)" during daylight time
+ * ```
+ */
+export function formatTimeZoneLabel(timeZone: string, date: Date = new Date()): string {
+  const city = timeZone.split('/').pop()?.replace(/_/g, ' ') ?? timeZone;
+  return `${city} (${formatTimeZoneOffset(timeZone, date)})`;
+}
+
+/**
+ * Returns the short zone name shown next to times, e.g. "EST", "EDT" or "GMT+4"
+ */
+export function getTimeZoneAbbreviation(timeZone: string, date: Date = new Date()): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(date);
+  return parts.find((part) => part.type === 'timeZoneName')?.value ?? formatTimeZoneOffset(timeZone, date);
+}
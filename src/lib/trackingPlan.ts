@@ -0,0 +1,106 @@
+/**
+ * Tracking plan
+ * Renders the analytics event catalog as JSON and markdown.
+ * scripts/tracking-plan.mjs writes both to docs/ (`npm run tracking-plan`), so
+ * the plan analysts read is the one trackEvent enforces.
+ */
+
+import {
+  EVENT_TIMESTAMP_PARAMETER,
+  analyticsEventCatalog,
+  type AnalyticsEventName,
+  type AnalyticsParameterSpec,
+} from './analyticsEvents';
+import type { ConsentCategory } from '../types/consent';
+
+export interface TrackingPlanParameter {
+  name: string;
+  type: AnalyticsParameterSpec['type'];
+  required: boolean;
+  description: string;
+  values?: readonly string[];
+}
+
+export interface TrackingPlanEvent {
+  name: AnalyticsEventName;
+  description: string;
+  consentCategory: ConsentCategory;
+  parameters: TrackingPlanParameter[];
+}
+
+export interface TrackingPlan {
+  version: 1;
+  /** Module the plan is generated from */
+  source: string;
+  /** Parameter every adapter adds with the time the event happened */
+  timestampParameter: string;
+  events: TrackingPlanEvent[];
+}
+
+const CATALOG_SOURCE = 'src/lib/analyticsEvents.ts';
+
+/**
+ * Every catalog event with its parameters, in catalog order
+ */
+export function buildTrackingPlan(): TrackingPlan {
+  const events = (Object.keys(analyticsEventCatalog) as AnalyticsEventName[]).map((name) => {
+    const { description, category, parameters } = analyticsEventCatalog[name];
+    const specs: Readonly<Record<string, AnalyticsParameterSpec>> = parameters;
+    return {
+      name,
+      description,
+      consentCategory: category,
+      parameters: Object.entries(specs).map(([parameter, spec]) => ({
+        name: parameter,
+        type: spec.type,
+        required: !spec.optional,
+        description: spec.description,
+        ...(spec.values ? { values: spec.values } : {}),
+      })),
+    };
+  });
+
+  return { version: 1, source: CATALOG_SOURCE, timestampParameter: EVENT_TIMESTAMP_PARAMETER, events };
+}
+
+// Keeps descriptions from breaking the table layout
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|');
+
+/**
+ * Renders the plan as markdown, one section per event
+ *
+ * @example
+ * ```ts
+ * renderTrackingPlanMarkdown(); // "# Analytics tracking plan\n\n…## `page_view`\n…"
+ * ```
+ */
+export function renderTrackingPlanMarkdown(plan: TrackingPlan = buildTrackingPlan()): string {
+  const lines = [
+    '# Analytics tracking plan',
+    '',
+    `Generated from \`${plan.source}\`. Events are only sent once the visitor consents to their category.`,
+    '',
+    `Every event also carries \`${plan.timestampParameter}\`, the ISO 8601 time it happened. Events queued before consent are counted by the providers when they are sent, so read the original time from this parameter.`,
+    '',
+  ];
+
+  for (const event of plan.events) {
+    lines.push(`## \`${event.name}\``, '', event.description, '', `Consent category: ${event.consentCategory}`, '');
+
+    if (event.parameters.length === 0) {
+      lines.push('No parameters.', '');
+      continue;
+    }
+
+    lines.push('| Parameter | Type | Required | Description |', '| --- | --- | --- | --- |');
+    for (const parameter of event.parameters) {
+      const type = parameter.values ? parameter.values.map((value) => `\`${value}\``).join(' \\| ') : parameter.type;
+      lines.push(
+        `| \`${parameter.name}\` | ${type} | ${parameter.required ? 'yes' : 'no'} | ${escapeCell(parameter.description)} |`
+      );
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
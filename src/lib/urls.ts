@@ -0,0 +1,49 @@
+/**
+ * URL helpers for links that leave the Next.js router
+ * next/link prefixes basePath automatically, but feeds, structured data and
+ * other absolute URLs have to add it themselves
+ */
+
+import { seoMetadata } from './constants';
+
+/**
+ * Base path the site is exported under (e.g. "/auxo-website"), without trailing slash
+ */
+export const basePath = (process.env.NEXT_PUBLIC_BASE_PATH ?? '').replace(/\/$/, '');
+
+/**
+ * Prefixes a site-relative path with the base path
+ *
+ * @example
+ * ```ts
+ * withBasePath('/insights/'); // "/auxo-website/insights/"
+ * ```
+ */
+export function withBasePath(path: string): string {
+  return `${basePath}${path.startsWith('/') ? path : `/${path}`}`;
+}
+
+/**
+ * Removes the base path from a browser pathname
+ *
+ * @example
+ * ```ts
+ * stripBasePath('/auxo-website/insights/'); // "/insights/"
+ * ```
+ */
+export function stripBasePath(pathname: string): string {
+  if (!basePath || (pathname !== basePath && !pathname.startsWith(`${basePath}/`))) return pathname;
+  return pathname.slice(basePath.length) || '/';
+}
+
+/**
+ * Builds an absolute URL on the public site, including the base path
+ *
+ * @example
+ * ```ts
+ * absoluteUrl('/feed.xml'); // "https://auxodata.co/auxo-website/feed.xml"
+ * ```
+ */
+export function absoluteUrl(path: string = '/'): string {
+  return `${seoMetadata.url.replace(/\/$/, '')}${withBasePath(path)}`;
+}
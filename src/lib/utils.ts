@@ -5,6 +5,8 @@
 
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { formatCompactNumber } from "./format"
+import { DEFAULT_LOCALE, type Locale } from "./i18n"
 
 /**
  * Combines and merges CSS class names using clsx and tailwind-merge
@@ -131,30 +133,23 @@ export function throttle<T extends (...args: unknown[]) => unknown>(
 }
 
 /**
- * Formats numbers with appropriate suffixes for better readability
+ * Formats numbers with compact, locale-appropriate suffixes for better readability
  * Useful for displaying large numbers in UI components
  * 
  * @param num - Number to format
- * @param precision - Decimal places to show (default: 1)
+ * @param precision - Maximum decimal places to show (default: 1)
+ * @param locale - Page locale for digits and suffixes (default: en)
  * @returns Formatted number string
  * 
  * @example
  * ```tsx
  * formatNumber(1500) // "1.5K"
- * formatNumber(1000000) // "1.0M"
+ * formatNumber(1000000) // "1M"
+ * formatNumber(1500, 1, 'ar') // "1.5 ألف"
  * ```
  */
-export function formatNumber(num: number, precision: number = 1): string {
-  const suffixes = ['', 'K', 'M', 'B', 'T'];
-  const tier = Math.log10(Math.abs(num)) / 3 | 0;
-  
-  if (tier === 0) return num.toString();
-  
-  const suffix = suffixes[tier];
-  const scale = Math.pow(10, tier * 3);
-  const scaled = num / scale;
-  
-  return scaled.toFixed(precision) + suffix;
+export function formatNumber(num: number, precision: number = 1, locale: Locale = DEFAULT_LOCALE): string {
+  return formatCompactNumber(num, locale, precision);
 }
 
 /**
@@ -1,4 +1,6 @@
-export interface BlogPost {
+import type { Publishable } from './publishing';
+
+export interface BlogPost extends Publishable {
   id: string;
   title: string;
   slug: string;
@@ -24,4 +26,11 @@ export interface BlogCategory {
   slug: string;
   description: string;
   color: string;
+}
+
+export interface BlogTag {
+  name: string;
+  slug: string;
+  /** Number of posts carrying the tag */
+  count: number;
 }
\ No newline at end of file
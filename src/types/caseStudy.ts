@@ -0,0 +1,40 @@
+import type { Publishable } from './publishing';
+
+/**
+ * How a metric amount is rendered, see formatMetricValue in lib/format
+ * - `number`: plain count, or a before→after pair with `from`
+ * - `percent`: whole percentage points (34 for 34%)
+ * - `currency`: full amount in `currency`, shown compact ($1.8M)
+ * - `multiple`: growth factor (3 for 3x)
+ */
+export type MetricUnit = 'number' | 'percent' | 'currency' | 'multiple';
+
+export interface CaseStudyMetric {
+  amount: number;
+  /** Starting value of a before→after metric */
+  from?: number;
+  unit: MetricUnit;
+  /** ISO 4217 code, required for `currency` metrics */
+  currency?: string;
+  label: string;
+}
+
+/**
+ * Canonical case-study record
+ */
+export interface CaseStudy extends Publishable {
+  id: number;
+  client: string;
+  industry: string;
+  /** One-sentence versions used by the impact carousel and cards */
+  summary: {
+    challenge: string;
+    outcome: string;
+  };
+  challenge: string;
+  solution: string;
+  outcome: string;
+  metrics: readonly CaseStudyMetric[];
+  /** Tailwind gradient classes for the story background */
+  color: string;
+}
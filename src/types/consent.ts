@@ -0,0 +1,26 @@
+/**
+ * Cookie categories, in the order the preferences center lists them
+ * Kept free of React so server code such as the content schema can import it
+ */
+export const CONSENT_CATEGORIES = ['essential', 'analytics', 'performance', 'marketing', 'scheduling'] as const;
+
+export type ConsentCategory = (typeof CONSENT_CATEGORIES)[number];
+
+/**
+ * Where a consent record came from: the visitor's own choice, or a browser
+ * privacy signal (Global Privacy Control or Do Not Track)
+ */
+export type ConsentSource = 'choice' | 'gpc' | 'dnt';
+
+/**
+ * A visitor's cookie choice, as stored in localStorage
+ */
+export interface ConsentRecord {
+  /** Privacy policy version the choice was made against */
+  version: string;
+  /** ISO 8601 date-time of the choice */
+  timestamp: string;
+  categories: Record<ConsentCategory, boolean>;
+  /** Missing on records stored before privacy signals were honored, which were all choices */
+  source?: ConsentSource;
+}
@@ -0,0 +1,11 @@
+export type ContentStatus = 'draft' | 'scheduled' | 'published';
+
+/**
+ * Fields shared by every publishable record; both are optional and content
+ * without a status counts as published
+ */
+export interface Publishable {
+  status?: ContentStatus;
+  /** ISO 8601 date or date-time the content may go live */
+  publishAt?: string;
+}
@@ -17,7 +17,8 @@ const config: Config = {
         'petrol-ink': '#0A3A4A',
       },
       fontFamily: {
-        'montserrat': ['var(--font-montserrat)', 'sans-serif'],
+        // Cairo supplies the Arabic glyphs Montserrat lacks
+        'montserrat': ['var(--font-montserrat)', 'var(--font-cairo)', 'sans-serif'],
         'cairo': ['var(--font-cairo)', 'sans-serif'],
       },
       fontWeight: {